@@ -0,0 +1,178 @@
+import { BasePlaywrightComputer } from "./base_playwright";
+import { isKnownKey, toModifierKey } from "./keys";
+import { ComputerAction } from "./types";
+
+export type ActionErrorCode =
+  | "unsupported_action"
+  | "unknown_function"
+  | "invalid_arguments"
+  | "action_failed";
+
+/**
+ * Thrown by `executeComputerAction` when the model asks for an action the computer
+ * cannot perform, and used by the agent for function calls that fail. The agent
+ * reports it back to the model instead of failing.
+ */
+export class ActionError extends Error {
+  code: ActionErrorCode;
+
+  constructor(code: ActionErrorCode, message: string) {
+    super(message);
+    this.name = "ActionError";
+    this.code = code;
+  }
+}
+
+const CLICK_BUTTONS = ["left", "right", "wheel", "back", "forward"];
+
+function requireNumber(
+  action: Record<string, unknown>,
+  key: string
+): number {
+  const value = action[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ActionError(
+      "invalid_arguments",
+      `${action.type} requires a numeric "${key}", got ${JSON.stringify(value)}`
+    );
+  }
+  return value;
+}
+
+function requireString(
+  action: Record<string, unknown>,
+  key: string
+): string {
+  const value = action[key];
+  if (typeof value !== "string") {
+    throw new ActionError(
+      "invalid_arguments",
+      `${action.type} requires a string "${key}", got ${JSON.stringify(value)}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Run a computer action from the model. Arguments are validated and passed by name,
+ * so the order of keys in the model's JSON does not matter.
+ */
+export async function executeComputerAction(
+  computer: BasePlaywrightComputer,
+  action: ComputerAction
+): Promise<void> {
+  // The action comes straight from model JSON, so check it at runtime too.
+  const raw = action as unknown as Record<string, unknown>;
+
+  switch (action.type) {
+    case "click": {
+      const button = requireString(raw, "button");
+      if (!CLICK_BUTTONS.includes(button)) {
+        throw new ActionError(
+          "invalid_arguments",
+          `click button must be one of ${CLICK_BUTTONS.join(", ")}, got "${button}"`
+        );
+      }
+      const keys = raw.keys ?? [];
+      if (
+        !Array.isArray(keys) ||
+        !keys.every((key) => typeof key === "string" && toModifierKey(key))
+      ) {
+        throw new ActionError(
+          "invalid_arguments",
+          `click "keys" must be an array of modifier keys such as "ctrl" or "shift", got ${JSON.stringify(keys)}`
+        );
+      }
+      // The back and forward buttons navigate the history wherever they're clicked
+      if (action.button === "back" || action.button === "forward") {
+        return computer.click(action.button, 0, 0, keys);
+      }
+      return computer.click(
+        action.button,
+        requireNumber(raw, "x"),
+        requireNumber(raw, "y"),
+        keys
+      );
+    }
+    case "double_click":
+      return computer.double_click(
+        requireNumber(raw, "x"),
+        requireNumber(raw, "y")
+      );
+    case "scroll":
+      return computer.scroll(
+        requireNumber(raw, "x"),
+        requireNumber(raw, "y"),
+        requireNumber(raw, "scroll_x"),
+        requireNumber(raw, "scroll_y")
+      );
+    case "type":
+      return computer.type(requireString(raw, "text"));
+    case "keypress": {
+      const keys = raw.keys;
+      if (
+        !Array.isArray(keys) ||
+        keys.length === 0 ||
+        !keys.every((key) => typeof key === "string")
+      ) {
+        throw new ActionError(
+          "invalid_arguments",
+          `keypress requires a non-empty "keys" array of strings, got ${JSON.stringify(keys)}`
+        );
+      }
+      const unknown = keys.filter((key) => !isKnownKey(key));
+      if (unknown.length > 0) {
+        throw new ActionError(
+          "invalid_arguments",
+          `keypress got unknown keys ${JSON.stringify(unknown)}; use single characters or names such as "enter", "pagedown" or "f5"`
+        );
+      }
+      return computer.keypress(keys);
+    }
+    case "drag": {
+      const path = raw.path;
+      if (
+        !Array.isArray(path) ||
+        !path.every(
+          (point) =>
+            Number.isFinite(point?.x) && Number.isFinite(point?.y)
+        )
+      ) {
+        throw new ActionError(
+          "invalid_arguments",
+          `drag requires a "path" of {x, y} points, got ${JSON.stringify(path)}`
+        );
+      }
+      return computer.drag(path);
+    }
+    case "move":
+      return computer.move(requireNumber(raw, "x"), requireNumber(raw, "y"));
+    case "wait":
+      return computer.wait();
+    case "screenshot":
+      // A screenshot is sent back after every action anyway.
+      return;
+    default: {
+      const unsupported: never = action;
+      throw new ActionError(
+        "unsupported_action",
+        `Unsupported action type: ${JSON.stringify((unsupported as { type?: unknown }).type)}`
+      );
+    }
+  }
+}
+
+/**
+ * An error reported to the model instead of failing the step: an `ActionError`, or
+ * `policy_violation` with the violation's code.
+ */
+export type ModelError = { error: string; code?: string; message: string };
+
+/**
+ * The structured error sent back to the model. For function calls it is the output;
+ * computer call outputs can only carry a screenshot, so for computer actions it goes
+ * in a developer message that follows the output.
+ */
+export function formatModelError(error: ModelError): string {
+  return JSON.stringify(error);
+}
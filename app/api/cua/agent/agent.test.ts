@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+import { Agent } from "./agent";
+import { PolicyEnforcer } from "./policy";
+import { computerCall, FakeComputer, ScriptedProvider } from "./testing";
+import type { ComputerToolCall } from "./types";
+
+function agentFor(computer: FakeComputer): Agent {
+  return new Agent("computer-use-preview", computer, undefined, {
+    provider: new ScriptedProvider([]),
+    policyEnforcer: new PolicyEnforcer({
+      allowedDomains: [],
+      deniedDomains: [],
+      allowPasswordTyping: false,
+      maxActions: null,
+    }),
+  });
+}
+
+describe("Agent password typing guard", () => {
+  it.each([
+    [{ type: "type", text: "hunter2" }],
+    [{ type: "keypress", keys: ["h", "u", "n"] }],
+    [{ type: "keypress", keys: ["shift", "h"] }],
+  ])("blocks %j in a password field", async (action) => {
+    const computer = new FakeComputer();
+    computer.passwordFieldFocused = true;
+
+    const [, message] = await agentFor(computer).takeComputerAction(
+      computerCall("call_1", action) as ComputerToolCall
+    );
+
+    expect(computer.actions).toEqual([]);
+    expect(JSON.parse((message as { content: string }).content)).toMatchObject({
+      code: "password_typing_blocked",
+    });
+  });
+
+  it.each([
+    [{ type: "keypress", keys: ["enter"] }, "keypress enter"],
+    [{ type: "keypress", keys: ["ctrl", "a"] }, "keypress ctrl+a"],
+  ])("allows %j in a password field", async (action, taken) => {
+    const computer = new FakeComputer();
+    computer.passwordFieldFocused = true;
+
+    const outputs = await agentFor(computer).takeComputerAction(
+      computerCall("call_1", action) as ComputerToolCall
+    );
+
+    expect(computer.actions).toEqual([taken]);
+    expect(outputs).toHaveLength(1);
+  });
+});
+
+describe("Agent screenshots", () => {
+  it.each([
+    ["wait", false],
+    ["screenshot", false],
+    ["keypress", true],
+  ])("after %s, reuses an unchanged frame: %s", async (type, reuse) => {
+    const computer = new FakeComputer();
+    const capture = vi.spyOn(computer, "captureScreenshot");
+    const action = type === "keypress" ? { type, keys: ["enter"] } : { type };
+
+    await agentFor(computer).takeComputerAction(
+      computerCall("call_1", action) as ComputerToolCall
+    );
+
+    expect(capture).toHaveBeenCalledWith(reuse);
+  });
+});
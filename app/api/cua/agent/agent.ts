@@ -1,34 +1,155 @@
-import { BrowserbaseBrowser } from "./browserbase";
+import {
+  ActionError,
+  executeComputerAction,
+  formatModelError,
+  ModelError,
+} from "./actions";
+import { BasePlaywrightComputer } from "./base_playwright";
+import { typesText } from "./keys";
+import { ActionPolicy, PolicyEnforcer, PolicyViolation } from "./policy";
+import { createProvider, DEFAULT_MODEL, ModelProvider } from "./providers";
+import { OutputSchema } from "./schema";
+import { screenshotDataUrl } from "./screenshots";
+import { DEFAULT_SETTLE_STRATEGY, SettleStrategy } from "./settle";
+import { buildInitialInput, findTaskUrl, handBackMessage } from "./task";
+import { getToolRegistry, ToolRegistry } from "./tools";
 import {
   Tool as AgentTool,
   ComputerCallOutput,
   ComputerToolCall,
+  EasyMessage,
   FunctionOutput,
+  FunctionTool,
   FunctionToolCall,
+  InputImage,
   InputItem,
   Item,
   Message,
   RequestOptions,
+  Response,
+  SafetyCheck,
 } from "./types";
+import { URL_SAFETY_CHECK } from "./url_safety";
+
+/**
+ * Decide whether a pending safety check raised by the model may be acknowledged.
+ * May resolve asynchronously, for example after asking a human.
+ */
+type AcknowledgeSafetyCheckCallback = (
+  message: string,
+  check: SafetyCheck
+) => boolean | Promise<boolean>;
+
+/**
+ * Inspect a URL the browser navigated to. Return a safety check to ask for
+ * acknowledgement before the agent continues, or null if the URL looks fine.
+ */
+export type UrlSafetyCheck = (
+  url: string
+) => SafetyCheck | null | Promise<SafetyCheck | null>;
+
+/**
+ * Thrown when a pending safety check is not acknowledged. The action that raised
+ * it is not executed.
+ */
+export class SafetyCheckRejectedError extends Error {
+  check: SafetyCheck;
 
-type AcknowledgeSafetyCheckCallback = (message: string) => boolean;
+  constructor(check: SafetyCheck) {
+    super(
+      `Safety check failed: ${check.message}. Cannot continue with unacknowledged safety checks.`
+    );
+    this.name = "SafetyCheckRejectedError";
+    this.check = check;
+  }
+}
+
+/**
+ * Settle like `promise`, or reject with the abort reason as soon as `signal` is
+ * aborted. Playwright calls can't be cancelled, so an abandoned browser call may
+ * still finish in the background; nothing acts on its result.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+// The first line of an error message; Playwright errors carry a call log after it
+function firstLine(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.split("\n")[0];
+}
+
+/**
+ * Narrow action results to the items that can be sent back to the model.
+ */
+export function isInputItem(item: Message | InputItem): item is InputItem {
+  return !("type" in item) || item.type !== "message";
+}
+
+export interface AgentOptions {
+  /** Where model requests are sent. Defaults to the provider selected by env config. */
+  provider?: ModelProvider;
+  /** Guardrails for the agent's actions. Defaults to the policy configured by env. */
+  policy?: ActionPolicy;
+  /**
+   * Tracks the actions taken so far, for agents that continue a run another agent
+   * started. Takes precedence over `policy`.
+   */
+  policyEnforcer?: PolicyEnforcer;
+  /**
+   * Called after each navigation; flagged URLs go through the safety check callback.
+   * Defaults to the check in `url_safety.ts`.
+   */
+  urlSafetyCheck?: UrlSafetyCheck;
+  /** Makes the model answer with JSON matching this schema. */
+  outputSchema?: OutputSchema;
+  /** Custom function tools offered next to the browser tools. Defaults to the shared registry. */
+  toolRegistry?: ToolRegistry;
+  /** What to wait for after each computer action before taking its screenshot. */
+  settle?: SettleStrategy;
+}
 
 export class Agent {
   private model: string;
-  private computer: BrowserbaseBrowser;
+  private computer: BasePlaywrightComputer;
   private tools: AgentTool[];
+  private toolRegistry: ToolRegistry;
   private printSteps: boolean = true;
   private acknowledgeSafetyCheckCallback: AcknowledgeSafetyCheckCallback;
+  private provider: ModelProvider;
+  private policy: PolicyEnforcer;
+  private urlSafetyCheck: UrlSafetyCheck | null;
+  private lastCheckedUrl: string | null = null;
+  private outputSchema: OutputSchema | null;
+  private settle: SettleStrategy;
   public lastResponseId: string | undefined = undefined;
 
   constructor(
-    model: string = "computer-use-preview",
-    computer: BrowserbaseBrowser,
-    acknowledgeSafetyCheckCallback: AcknowledgeSafetyCheckCallback = () => true
+    model: string = DEFAULT_MODEL,
+    computer: BasePlaywrightComputer,
+    acknowledgeSafetyCheckCallback: AcknowledgeSafetyCheckCallback = () => true,
+    options: AgentOptions = {}
   ) {
     this.model = model;
     this.computer = computer;
     this.acknowledgeSafetyCheckCallback = acknowledgeSafetyCheckCallback;
+    this.provider = options.provider ?? createProvider();
+    this.policy = options.policyEnforcer ?? new PolicyEnforcer(options.policy);
+    this.urlSafetyCheck = options.urlSafetyCheck ?? URL_SAFETY_CHECK;
+    this.outputSchema = options.outputSchema ?? null;
+    this.toolRegistry = options.toolRegistry ?? getToolRegistry();
+    this.settle = options.settle ?? DEFAULT_SETTLE_STRATEGY;
 
     // Define the available tools for the agent
     this.tools = [
@@ -62,71 +183,164 @@ export class Agent {
         },
         strict: false,
       },
+      {
+        type: "function",
+        name: "list_tabs",
+        description:
+          "List the open browser tabs with their tab_id, title, URL and whether they are active.",
+        parameters: {},
+        strict: false,
+      },
+      {
+        type: "function",
+        name: "switch_tab",
+        description: "Switch to another open tab.",
+        parameters: {
+          type: "object",
+          properties: {
+            tab_id: {
+              type: "string",
+              description: "The tab_id of the tab, as returned by list_tabs.",
+            },
+          },
+          additionalProperties: false,
+          required: ["tab_id"],
+        },
+        strict: false,
+      },
+      {
+        type: "function",
+        name: "close_tab",
+        description: "Close an open tab. The last open tab cannot be closed.",
+        parameters: {
+          type: "object",
+          properties: {
+            tab_id: {
+              type: "string",
+              description: "The tab_id of the tab, as returned by list_tabs.",
+            },
+          },
+          additionalProperties: false,
+          required: ["tab_id"],
+        },
+        strict: false,
+      },
+      {
+        type: "function",
+        name: "get_page_text",
+        description:
+          "Read the visible text of the current page, without taking a screenshot. Long pages are returned in slices; call again with a later start to read on.",
+        parameters: {
+          type: "object",
+          properties: {
+            start: {
+              type: "integer",
+              description: "Character offset to start reading from. Defaults to 0.",
+            },
+          },
+          additionalProperties: false,
+        },
+        strict: false,
+      },
+      {
+        type: "function",
+        name: "get_accessibility_tree",
+        description:
+          "Read the accessibility tree of the current page as YAML: the role, name and state of every element, such as headings, buttons, form fields and table cells. Long trees are returned in slices like get_page_text.",
+        parameters: {
+          type: "object",
+          properties: {
+            start: {
+              type: "integer",
+              description: "Character offset to start reading from. Defaults to 0.",
+            },
+          },
+          additionalProperties: false,
+        },
+        strict: false,
+      },
+      {
+        type: "function",
+        name: "find_element",
+        description:
+          "Find visible elements whose text, label or placeholder contains the given text. Returns the x and y of each element's center, in the same coordinates as the screenshot, and whether it is currently in view.",
+        parameters: {
+          type: "object",
+          properties: {
+            text: {
+              type: "string",
+              description: "Text to look for, matched case-insensitively.",
+            },
+          },
+          additionalProperties: false,
+          required: ["text"],
+        },
+        strict: false,
+      },
+      {
+        type: "function",
+        name: "read_links",
+        description:
+          "List the links on the current page with their text and URL. Use goto to follow one.",
+        parameters: {},
+        strict: false,
+      },
+      {
+        type: "function",
+        name: "fill_credentials",
+        description:
+          "Fill the login form on the current page with the user's saved credentials for a site. The credentials are never shown to you. Submit the form afterwards.",
+        parameters: {
+          type: "object",
+          properties: {
+            site: {
+              type: "string",
+              description:
+                "Name of the saved login, as given by the user or listed in the error when the name is unknown.",
+            },
+          },
+          additionalProperties: false,
+          required: ["site"],
+        },
+        strict: false,
+      },
     ];
   }
 
-  private async createResponse(options: RequestOptions): Promise<any> {
-    const url = "https://api.openai.com/v1/responses";
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-      'Openai-beta': 'responses=v1',
-    };
+  /**
+   * The browser tools plus the registered custom tools. A custom tool can't replace
+   * a browser tool of the same name.
+   */
+  private getTools(): AgentTool[] {
+    const custom = this.toolRegistry.definitions().filter((tool) => {
+      if (!this.getBuiltInFunction(tool.name)) return true;
+      console.warn(`Ignoring custom tool ${tool.name}: a browser tool has that name`);
+      return false;
+    });
+    return [...this.tools, ...custom];
+  }
 
-    // Function to handle fetch with retry logic
-    const fetchWithRetry = async (
-      url: string,
-      options: RequestInit,
-      retries = 3,
-      backoff = 300
-    ): Promise<any> => {
-      try {
-        const response = await fetch(url, options);
-        
-        // If response is not ok and we have retries left
-        if (!response.ok) {
-          if (response.status >= 500 && retries > 0) {
-            // Wait for backoff duration and then retry
-            await new Promise(resolve => setTimeout(resolve, backoff));
-            return fetchWithRetry(url, options, retries - 1, backoff * 2);
-          }
-          
-          // If retries exhausted or status code is not 5xx, throw error with response details
-          const errorData = await response.json().catch(() => ({ message: "Failed to parse error response" }));
-          throw new Error(`Request failed with status ${response.status}: ${JSON.stringify(errorData)}`);
-        }
-        
-        return response.json();
-      } catch (error) {
-        if (retries > 0) {
-          // Wait for backoff duration and then retry
-          await new Promise(resolve => setTimeout(resolve, backoff));
-          return fetchWithRetry(url, options, retries - 1, backoff * 2);
-        }
-        throw error;
-      }
-    };
-  
-    try {
-      const response = await fetchWithRetry(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(options)
-      });
-      
-      return response;
-    } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-      throw error;
-    }
-  } 
+  private getBuiltInFunction(name: string): FunctionTool | undefined {
+    return this.tools.find(
+      (tool): tool is FunctionTool => tool.type === "function" && tool.name === name
+    );
+  }
+
+  private async createResponse(
+    options: RequestOptions,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return this.provider.createResponse(options, signal);
+  }
 
   /**
-   * Get the next action from the agent based on the input messages
+   * Get the next action from the agent based on the input messages. Aborting
+   * `signal` cancels the model request.
    */
   async getAction(
     inputItems: InputItem[],
-    previousResponseId: string | undefined
+    previousResponseId: string | undefined,
+    signal?: AbortSignal
   ): Promise<{
     output: Item[];
     responseId: string;
@@ -134,16 +348,19 @@ export class Agent {
     const response = await this.createResponse({
       model: this.model,
       input: inputItems,
-      tools: this.tools,
+      tools: this.getTools(),
       truncation: "auto",
+      ...(this.outputSchema
+        ? { text: { format: { type: "json_schema", ...this.outputSchema } } }
+        : {}),
       ...(previousResponseId
         ? { previous_response_id: previousResponseId }
         : {}),
-    });
+    }, signal);
 
     return {
-      output: response.output as Item[],
-      responseId: response.id as string,
+      output: response.output,
+      responseId: response.id,
     };
   }
 
@@ -151,21 +368,110 @@ export class Agent {
    * Execute the actions returned by the agent
    */
   async takeAction(
-    output: Item[]
-  ): Promise<(Message | ComputerCallOutput | FunctionOutput)[]> {
-    const actions: Promise<Message | ComputerCallOutput | FunctionOutput>[] = [];
+    output: Item[],
+    signal?: AbortSignal
+  ): Promise<(Message | ComputerCallOutput | FunctionOutput | EasyMessage)[]> {
+    const actions: Promise<
+      (Message | ComputerCallOutput | FunctionOutput | EasyMessage)[]
+    >[] = [];
+
+    // Act on the tab the session is on, which may have changed since the last step
+    await abortable(this.computer.syncActiveTab(), signal);
     
     for (const item of output) {
       if (item.type === "computer_call") {
-        actions.push(this.takeComputerAction(item as ComputerToolCall));
+        actions.push(this.takeComputerAction(item as ComputerToolCall, signal));
       }
       if (item.type === "function_call") {
-        actions.push(this.takeFunctionAction(item as FunctionToolCall));
+        actions.push(
+          this.takeFunctionAction(item as FunctionToolCall, signal).then(
+            (result) => [result]
+          )
+        );
       }
     }
 
     const results = await Promise.all(actions);
-    return results;
+    return results.flat();
+  }
+
+  /**
+   * Build the first model input for a task. When the request names a page the
+   * policy allows, the browser opens it first and the model starts from a
+   * screenshot of it, instead of spending its first turn navigating.
+   */
+  async initialInput(
+    userInput: string,
+    signal?: AbortSignal
+  ): Promise<InputItem[]> {
+    const url = findTaskUrl(userInput);
+    if (!url || this.policy.checkUrl(url)) {
+      return buildInitialInput(userInput, this.outputSchema);
+    }
+
+    await abortable(this.computer.syncActiveTab(), signal);
+    try {
+      await abortable(this.computer.goto(url), signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // The model starts from whatever loaded and can navigate again itself
+      console.warn(`Failed to open ${url} before the task:`, error);
+    }
+    await this.enforceUrlPolicy();
+
+    const currentUrl = this.computer.getCurrentUrl();
+    await this.checkUrlSafety(currentUrl);
+    const screenshot = await abortable(this.computer.captureScreenshot(), signal);
+
+    return buildInitialInput(userInput, this.outputSchema, {
+      url: currentUrl,
+      imageUrl: screenshotDataUrl(screenshot),
+    });
+  }
+
+  /**
+   * Bring input prepared before a user takeover up to date. Screenshots in computer
+   * call outputs are retaken, and a user message says control was handed back. The
+   * message carries the screenshot itself when no output does.
+   */
+  async handBackInput(
+    input: InputItem[],
+    note?: string,
+    signal?: AbortSignal
+  ): Promise<InputItem[]> {
+    await abortable(this.computer.syncActiveTab(), signal);
+    const screenshot = await abortable(this.computer.captureScreenshot(), signal);
+    const imageUrl = screenshotDataUrl(screenshot);
+    const currentUrl = this.computer.getCurrentUrl();
+
+    let hasScreenshot = false;
+    const refreshed = input.map((item): InputItem => {
+      if (!("type" in item) || item.type !== "computer_call_output") {
+        return item;
+      }
+      hasScreenshot = true;
+      return {
+        ...item,
+        output: { type: "input_image", image_url: imageUrl },
+        current_url: currentUrl,
+      };
+    });
+
+    const image: InputImage = {
+      type: "input_image",
+      image_url: imageUrl,
+      detail: "auto",
+    };
+    return [
+      ...refreshed,
+      {
+        role: "user",
+        content: [
+          { type: "input_text", text: handBackMessage(currentUrl, note) },
+          ...(hasScreenshot ? [] : [image]),
+        ],
+      },
+    ];
   }
 
   /**
@@ -179,11 +485,13 @@ export class Agent {
   }
 
   /**
-   * Execute a computer action (like click, type, etc.)
+   * Execute a computer action (like click, type, etc.). If the action breaks the
+   * policy, is invalid or fails, the output is followed by a message explaining why.
    */
   async takeComputerAction(
-    computerItem: ComputerToolCall
-  ): Promise<ComputerCallOutput> {
+    computerItem: ComputerToolCall,
+    signal?: AbortSignal
+  ): Promise<(ComputerCallOutput | EasyMessage)[]> {
     const action = computerItem.action;
     const actionType = action.type;
     const actionArgs = Object.fromEntries(
@@ -198,70 +506,218 @@ export class Agent {
       throw new Error("Computer not initialized");
     }
 
-    // Execute the computer action
-    const method = (this.computer as unknown as Record<string, unknown>)[
-      actionType
-    ] as (...args: unknown[]) => unknown;
-    
-    if (typeof method !== 'function') {
-      throw new Error(`Method ${actionType} not found on computer`);
+    // Handle safety checks before acting, so a rejected action never runs
+    const pendingChecks = computerItem.pending_safety_checks || [];
+    for (const check of pendingChecks) {
+      if (!(await this.acknowledgeSafetyCheckCallback(check.message, check))) {
+        throw new SafetyCheckRejectedError(check);
+      }
     }
-    
-    await method.apply(this.computer, Object.values(actionArgs));
 
-    // Take a screenshot after the action
-    const screenshot = await this.computer.screenshot();
+    // Typing a password key by key is still typing it
+    const typesIntoField =
+      actionType === "type" ||
+      (actionType === "keypress" &&
+        Array.isArray(action.keys) &&
+        action.keys.every((key) => typeof key === "string") &&
+        typesText(action.keys));
+    let violation = this.policy.countAction();
+    if (!violation && typesIntoField) {
+      violation = this.policy.checkTyping(
+        await this.computer.isPasswordFieldFocused()
+      );
+    }
 
-    // Handle safety checks
-    const pendingChecks = computerItem.pending_safety_checks || [];
-    for (const check of pendingChecks) {
-      const message = check.message;
-      if (!this.acknowledgeSafetyCheckCallback(message)) {
-        throw new Error(
-          `Safety check failed: ${message}. Cannot continue with unacknowledged safety checks.`
+    let actionError: ActionError | null = null;
+    if (!violation) {
+      try {
+        // Let the page finish what the action started, so the screenshot isn't half loaded
+        const execute = () => executeComputerAction(this.computer, action);
+        await abortable(
+          actionType === "screenshot"
+            ? execute()
+            : this.computer.settleAfter(execute, this.settle),
+          signal
         );
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        actionError =
+          error instanceof ActionError
+            ? error
+            : new ActionError(
+                "action_failed",
+                `${actionType} failed: ${firstLine(error)}`
+              );
       }
+
+      violation = await this.enforceUrlPolicy();
     }
 
-    return {
+    const currentUrl = this.computer.getCurrentUrl();
+    await this.checkUrlSafety(currentUrl);
+
+    // Take a screenshot after the action. Unless the model asked for one or waited
+    // for the page to change, the last screenshot is sent again if nothing on the
+    // page changed.
+    const screenshot = await abortable(
+      this.computer.captureScreenshot(
+        actionType !== "screenshot" && actionType !== "wait"
+      ),
+      signal
+    );
+
+    const computerOutput: ComputerCallOutput = {
       type: "computer_call_output",
       call_id: computerItem.call_id,
       acknowledged_safety_checks: pendingChecks,
       output: {
         type: "input_image",
-        image_url: `data:image/png;base64,${screenshot}`,
+        image_url: screenshotDataUrl(screenshot),
       },
+      current_url: currentUrl,
     };
+
+    const errors: ModelError[] = [
+      ...(actionError
+        ? [
+            {
+              error: actionError.code,
+              message: `${actionError.message}. The action was not performed.`,
+            },
+          ]
+        : []),
+      ...(violation ? [{ error: "policy_violation", ...violation }] : []),
+    ];
+    return [
+      computerOutput,
+      ...errors.map(
+        (error): EasyMessage => ({ role: "developer", content: formatModelError(error) })
+      ),
+    ];
   }
 
   /**
-   * Execute a function action (like back, goto, etc.)
+   * Execute a function action: a browser function (like back, goto, etc.) or a
+   * custom tool from the registry. The output is the function's result, or the page's
+   * URL and title for browser functions without one. Failures are reported to the
+   * model as a structured error instead of failing the step.
    */
   async takeFunctionAction(
-    functionItem: FunctionToolCall
+    functionItem: FunctionToolCall,
+    signal?: AbortSignal
   ): Promise<FunctionOutput> {
     const name = functionItem.name;
-    const args = JSON.parse(functionItem.arguments);
+    const output = (text: string): FunctionOutput => ({
+      type: "function_call_output",
+      call_id: functionItem.call_id,
+      output: text,
+    });
+
+    let args: Record<string, unknown>;
+    try {
+      args = JSON.parse(functionItem.arguments || "{}");
+    } catch {
+      return output(
+        formatModelError({
+          error: "invalid_arguments",
+          message: `The arguments of ${name} are not valid JSON`,
+        })
+      );
+    }
     
     if (this.printSteps) {
       console.log(`${name}(${JSON.stringify(args)})`);
     }
 
-    if (
-      this.computer &&
-      typeof (this.computer as unknown as Record<string, unknown>)[name] ===
-        "function"
-    ) {
-      const method = (this.computer as unknown as Record<string, unknown>)[
-        name
-      ] as (...args: unknown[]) => unknown;
-      await method.apply(this.computer, Object.values(args));
+    // Only the declared function tools may be called, never other computer methods
+    const builtIn = this.getBuiltInFunction(name);
+    const custom = builtIn ? undefined : this.toolRegistry.get(name);
+    const method = (this.computer as unknown as Record<string, unknown>)[name];
+    if (!custom && (!builtIn || typeof method !== "function")) {
+      return output(
+        formatModelError({
+          error: "unknown_function",
+          message: `Unknown function: ${name}`,
+        })
+      );
     }
 
-    return {
-      type: "function_call_output",
-      call_id: functionItem.call_id,
-      output: "success",
-    };
+    let violation = this.policy.countAction();
+    if (!violation && name === "goto") {
+      violation = this.policy.checkUrl(String(args.url));
+    }
+    if (violation) {
+      return output(formatModelError({ error: "policy_violation", ...violation }));
+    }
+
+    let result: unknown;
+    try {
+      if (custom) {
+        result = await abortable(
+          Promise.resolve(custom.handler(args, { computer: this.computer, signal })),
+          signal
+        );
+      } else {
+        // Pass arguments in the order the tool declares them, not the model's order
+        const { properties = {} } = builtIn!.parameters as { properties?: object };
+        result = await abortable(
+          Promise.resolve(
+            (method as (...args: unknown[]) => unknown).apply(
+              this.computer,
+              Object.keys(properties).map((key) => args[key])
+            )
+          ),
+          signal
+        );
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      result = new ActionError("action_failed", `${name} failed: ${firstLine(error)}`);
+    }
+
+    violation = await this.enforceUrlPolicy();
+    await this.checkUrlSafety(this.computer.getCurrentUrl());
+
+    if (violation) {
+      return output(formatModelError({ error: "policy_violation", ...violation }));
+    }
+    if (result instanceof ActionError) {
+      return output(formatModelError({ error: result.code, message: result.message }));
+    }
+    if (result === undefined && !custom) {
+      result = await this.computer.getPageState();
+    }
+    return output(JSON.stringify(result ?? null));
+  }
+
+  /**
+   * Run the URL safety hook when the page has moved to a new URL. A flagged URL is
+   * handled like a pending safety check from the model, so rejecting it stops the
+   * agent with `SafetyCheckRejectedError`.
+   */
+  private async checkUrlSafety(url: string): Promise<void> {
+    if (!this.urlSafetyCheck || url === this.lastCheckedUrl) return;
+    this.lastCheckedUrl = url;
+
+    const check = await this.urlSafetyCheck(url);
+    if (!check) return;
+    if (!(await this.acknowledgeSafetyCheckCallback(check.message, check))) {
+      throw new SafetyCheckRejectedError(check);
+    }
+  }
+
+  /**
+   * Check the page URL after an action. If the action landed on a blocked page, go
+   * back, or to a blank page if going back does not leave the blocked site.
+   */
+  private async enforceUrlPolicy(): Promise<PolicyViolation | null> {
+    const violation = this.policy.checkUrl(this.computer.getCurrentUrl());
+    if (violation) {
+      await this.computer.back().catch(() => {});
+      if (this.policy.checkUrl(this.computer.getCurrentUrl())) {
+        await this.computer.goto("about:blank");
+      }
+    }
+    return violation;
   }
 }
@@ -0,0 +1,95 @@
+import { existsSync } from "fs";
+import { Browser, chromium, Page } from "playwright";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { BasePlaywrightComputer } from "./base_playwright";
+
+// The browser the local backend uses; the tests are skipped when it isn't installed
+const executablePath =
+  process.env.LOCAL_BROWSER_EXECUTABLE_PATH || chromium.executablePath();
+const noBrowser = !existsSync(executablePath);
+
+class TestComputer extends BasePlaywrightComputer {
+  get page(): Page {
+    if (!this._page) throw new Error("Page not initialized");
+    return this._page;
+  }
+
+  protected async _getBrowserAndPage(): Promise<[Browser, Page]> {
+    const browser = await chromium.launch({ executablePath });
+    return [browser, await browser.newPage()];
+  }
+}
+
+// Records every keydown and keyup as "<type> <key> <held modifiers>"
+const KEY_RECORDER = `<input autofocus>
+<script>
+  window.keyEvents = [];
+  for (const type of ["keydown", "keyup"]) {
+    document.addEventListener(type, (event) => {
+      const held = ["ctrl", "shift", "alt", "meta"].filter((m) => event[m + "Key"]);
+      window.keyEvents.push([type, event.key, held.join("+")].join(" ").trim());
+    });
+  }
+</script>`;
+
+describe("BasePlaywrightComputer.keypress", () => {
+  const computer = new TestComputer();
+
+  beforeAll(async () => {
+    if (!noBrowser) await computer.connect();
+  }, 30000);
+  afterAll(async () => {
+    if (!noBrowser) await computer.disconnect();
+  });
+
+  beforeEach(async () => {
+    if (!noBrowser) await computer.page.setContent(KEY_RECORDER);
+  });
+
+  const keyEvents = () =>
+    computer.page.evaluate(() => (window as unknown as { keyEvents: string[] }).keyEvents);
+
+  it.skipIf(noBrowser)("holds the modifiers of a chord while pressing the other keys", async () => {
+    await computer.keypress(["ctrl", "shift", "t"]);
+    expect(await keyEvents()).toEqual([
+      "keydown Control ctrl",
+      "keydown Shift ctrl+shift",
+      "keydown T ctrl+shift",
+      "keyup T ctrl+shift",
+      "keyup Shift ctrl",
+      "keyup Control",
+    ]);
+  });
+
+  it.skipIf(noBrowser)("matches key names regardless of case", async () => {
+    await computer.keypress(["CTRL", "ENTER"]);
+    expect(await keyEvents()).toEqual([
+      "keydown Control ctrl",
+      "keydown Enter ctrl",
+      "keyup Enter ctrl",
+      "keyup Control",
+    ]);
+  });
+
+  it.skipIf(noBrowser)("presses single characters as they are", async () => {
+    await computer.keypress(["/"]);
+    expect(await keyEvents()).toEqual(["keydown /", "keyup /"]);
+  });
+
+  it.skipIf(noBrowser)("presses function keys and keys in order", async () => {
+    await computer.keypress(["f2", "a", "pagedown"]);
+    expect(await keyEvents()).toEqual([
+      "keydown F2",
+      "keyup F2",
+      "keydown a",
+      "keyup a",
+      "keydown PageDown",
+      "keyup PageDown",
+    ]);
+  });
+
+  it.skipIf(noBrowser)("presses and releases a chord of only modifiers", async () => {
+    await computer.keypress(["shift"]);
+    expect(await keyEvents()).toEqual(["keydown Shift shift", "keyup Shift"]);
+  });
+});
@@ -1,53 +1,88 @@
-import { Browser, Page } from 'playwright';
+import { Browser, BrowserContext, CDPSession, Page } from 'playwright';
+import {
+  captureViewport,
+  captureViewportFallback,
+  FrameState,
+  getScreenshotOptions,
+  readFrameState,
+  Screenshot,
+  ScreenshotOptions,
+} from './screenshots';
+import { toKeyChord, toModifierKey } from './keys';
+import { SettleStrategy, SettleWatcher } from './settle';
+import { EmulationSettings } from './settings';
+import { getActiveTabId, getTabId, setActiveTabId } from './tabs';
+import { BrowserProfile, Credential, getCredential, isAllowedOrigin, VaultError } from './vault';
 
-// Key mapping for CUA style keys to Playwright keys
-const CUA_KEY_TO_PLAYWRIGHT_KEY: Record<string, string> = {
-  "/": "Divide",
-  "\\": "Backslash",
-  "alt": "Alt",
-  "arrowdown": "ArrowDown",
-  "arrowleft": "ArrowLeft",
-  "arrowright": "ArrowRight",
-  "arrowup": "ArrowUp",
-  "up": "ArrowUp",
-  "down": "ArrowDown",
-  "left": "ArrowLeft",
-  "right": "ArrowRight",
-  "backspace": "Backspace",
-  "capslock": "CapsLock",
-  "cmd": "Meta",
-  "command": "Meta",
-  "ctrl": "Control",
-  "control": "Control",
-  "delete": "Delete",
-  "end": "End",
-  "enter": "Enter",
-  "esc": "Escape",
-  "home": "Home",
-  "insert": "Insert",
-  "option": "Alt",
-  "pagedown": "PageDown",
-  "pageup": "PageUp",
-  "shift": "Shift",
-  "space": " ",
-  "super": "Meta",
-  "tab": "Tab",
-  "win": "Meta",
-};
+const USERNAME_FIELDS = [
+  'input[autocomplete="username"]',
+  'input[type="email"]',
+  'input[name*="user" i]',
+  'input[name*="login" i]',
+  'input[type="text"]',
+  'input:not([type])',
+].map((selector) => `${selector}:visible`).join(", ");
+
+// Limits on what the page reading tools send back, to keep model requests small
+const MAX_TEXT_LENGTH = 20000;
+const MAX_ELEMENTS = 10;
+const MAX_LINKS = 200;
+
+// A slice of a long text, starting at `start`
+function textSlice(text: string, start: number = 0) {
+  const end = start + MAX_TEXT_LENGTH;
+  return {
+    text: text.slice(start, end),
+    start,
+    total_length: text.length,
+    truncated: end < text.length,
+  };
+}
 
-// Hotkeys mapping
-const HOTKEYS: Record<string, string> = {
-  "alt": "Alt",
-  "ctrl": "Control",
-  "control": "Control",
-  "shift": "Shift",
-  "meta": "Meta",
-  "command": "Meta",
-  "win": "Meta",
+// A textbox line of an ARIA snapshot, split into the element and its value
+const ARIA_TEXTBOX_VALUE = /^(- textbox(?: "(?:[^"\\]|\\.)*")?(?: \[[^\]]*\])*): .*$/;
+
+/**
+ * The ARIA snapshot of `page` with the values of password fields replaced, so that
+ * typed or filled passwords never reach the model. Each password field's own
+ * snapshot line is looked up in the page's snapshot and redacted there.
+ */
+async function redactedAriaSnapshot(page: Page): Promise<string> {
+  const tree = await page.locator("body").ariaSnapshot();
+  const redactions = new Map<string, string>();
+  for (const field of await page.locator('input[type="password"]').all()) {
+    const line = (await field.ariaSnapshot().catch(() => "")).trim();
+    const match = ARIA_TEXTBOX_VALUE.exec(line);
+    if (match) redactions.set(line, `${match[1]}: "[redacted]"`);
+  }
+  if (redactions.size === 0) return tree;
+  return tree
+    .split("\n")
+    .map((line) => {
+      const redacted = redactions.get(line.trim());
+      return redacted ? line.replace(line.trim(), redacted) : line;
+    })
+    .join("\n");
 }
 
 export type Environment = "browser";
 
+// The CDP session holding each page's emulation overrides, which last as long as it
+// does. Kept on globalThis, because local pages outlive the connections that
+// emulate on them.
+const globalForEmulation = globalThis as unknown as {
+  emulationSessions?: WeakMap<Page, CDPSession>;
+};
+const emulationSessions =
+  globalForEmulation.emulationSessions ?? new WeakMap<Page, CDPSession>();
+globalForEmulation.emulationSessions = emulationSessions;
+
+/**
+ * Where the browser is after a navigation, reported back to the model. `status` is
+ * the HTTP status of the response, or null when there was none (e.g. about:blank).
+ */
+export type PageState = { url: string; title: string; status?: number | null };
+
 /**
  * Abstract base for Playwright-based computers:
  * 
@@ -56,6 +91,13 @@ export type Environment = "browser";
  * - This base class handles context creation (`connect`/`disconnect`),
  *   plus standard "Computer" actions like click, scroll, etc.
  * - We also have extra browser actions: `goto(url)` and `back()`.
+ * - Tabs opened while connected become the active tab, and the active tab of a
+ *   session is remembered across connections. The agent can manage tabs with
+ *   `list_tabs()`, `switch_tab(tab_id)` and `close_tab(tab_id)`.
+ * - The model can read the page without screenshots with `get_page_text()`,
+ *   `get_accessibility_tree()`, `find_element(text)` and `read_links()`.
+ * - `fill_credentials(site)` logs in with a login from the vault, without the
+ *   model ever seeing it.
  */
 export abstract class BasePlaywrightComputer {
   environment: Environment = "browser";
@@ -63,6 +105,29 @@ export abstract class BasePlaywrightComputer {
   
   protected _browser: Browser | null = null;
   protected _page: Page | null = null;
+  protected sessionId: string | null = null;
+  protected screenshotOptions: ScreenshotOptions = getScreenshotOptions();
+  // Locale, timezone and user agent emulated on every page over CDP
+  protected emulation: EmulationSettings = {
+    locale: null,
+    timezone: null,
+    userAgent: null,
+  };
+  
+  // Reused for every screenshot of the active tab
+  private cdpSession: CDPSession | null = null;
+  private cdpSessionPage: Page | null = null;
+  // The last screenshot of each page, with the frame state it was taken in
+  private lastFrames = new WeakMap<Page, { key: string; screenshot: Screenshot }>();
+  private _context: BrowserContext | null = null;
+  private onNewTab = async (page: Page) => {
+    try {
+      await this.emulate(page);
+      await this.setActivePage(page);
+    } catch (error) {
+      console.error("Error switching to new tab:", error);
+    }
+  };
   
   constructor() {
     this._browser = null;
@@ -74,34 +139,217 @@ export abstract class BasePlaywrightComputer {
     const [browser, page] = await this._getBrowserAndPage();
     this._browser = browser;
     this._page = page;
+    
+    // Follow tabs opened by the page, e.g. links with target="_blank"
+    this._context = page.context();
+    this._context.on("page", this.onNewTab);
+    for (const openPage of this._context.pages()) {
+      await this.emulate(openPage);
+    }
+    await this.syncActiveTab();
     return this;
   }
   
   async disconnect(): Promise<void> {
+    this.stopTrackingTabs();
     if (this._browser) {
       await this._browser.close();
     }
   }
   
-  // Screenshot action
+  // Whether the browser connection is still usable
+  isConnected(): boolean {
+    return !!this._browser?.isConnected() && !!this._page;
+  }
+  
+  protected stopTrackingTabs(): void {
+    this._context?.off("page", this.onNewTab);
+    this._context = null;
+  }
+  
+  /**
+   * Emulate a locale, timezone and user agent on every open page and on tabs opened
+   * later, e.g. when a warm session is handed out for a task that asks for them.
+   */
+  async setEmulation(emulation: EmulationSettings): Promise<void> {
+    this.emulation = emulation;
+    for (const page of this._context?.pages() ?? []) {
+      await this.emulate(page);
+    }
+  }
+  
+  // Apply the emulation settings to a page over CDP
+  private async emulate(page: Page): Promise<void> {
+    const { locale, timezone, userAgent } = this.emulation;
+    if (!locale && !timezone && !userAgent) return;
+
+    let cdpSession = emulationSessions.get(page);
+    if (!cdpSession) {
+      cdpSession = await page.context().newCDPSession(page);
+      emulationSessions.set(page, cdpSession);
+    }
+    if (timezone) {
+      await cdpSession.send("Emulation.setTimezoneOverride", {
+        timezoneId: timezone,
+      });
+    }
+    if (locale) {
+      await cdpSession.send("Emulation.setLocaleOverride", { locale });
+    }
+    if (userAgent || locale) {
+      await cdpSession.send("Network.setUserAgentOverride", {
+        userAgent:
+          userAgent ?? (await page.evaluate(() => navigator.userAgent)),
+        ...(locale ? { acceptLanguage: locale } : {}),
+      });
+    }
+  }
+  
+  // Make a page the one all actions go to, and remember it for the session
+  protected async setActivePage(page: Page): Promise<void> {
+    this._page = page;
+    await page.bringToFront().catch(() => {});
+    if (this.sessionId) {
+      setActiveTabId(this.sessionId, await getTabId(page));
+    }
+  }
+  
+  /**
+   * Point actions at the session's active tab. The active tab may have been
+   * switched by another connection or by the user, or closed.
+   */
+  async syncActiveTab(): Promise<void> {
+    if (!this._page) throw new Error("Page not initialized");
+    const activeTabId = this.sessionId ? getActiveTabId(this.sessionId) : null;
+    if (
+      !this._page.isClosed() &&
+      (!activeTabId || (await getTabId(this._page)) === activeTabId)
+    ) {
+      return;
+    }
+    
+    const pages = this._page.context().pages();
+    for (const page of pages) {
+      if (activeTabId && (await getTabId(page)) === activeTabId) {
+        this._page = page;
+        return;
+      }
+    }
+    if (pages.length > 0) {
+      await this.setActivePage(pages[pages.length - 1]);
+    }
+  }
+  
+  // Screenshot action, returning the image base64 encoded
   async screenshot(): Promise<string> {
+    return (await this.captureScreenshot()).data;
+  }
+  
+  /**
+   * Capture the viewport with the configured screenshot options. With
+   * `reuseUnchanged`, the previous screenshot of the page is returned instead if
+   * nothing on the page changed since it was taken.
+   */
+  async captureScreenshot(reuseUnchanged: boolean = false): Promise<Screenshot> {
     if (!this._page) throw new Error("Page not initialized");
-    const buffer = await this._page.screenshot({ fullPage: false });
-    return buffer.toString('base64');
+    const page = this._page;
+    const options = this.screenshotOptions;
+    
+    // A page in the middle of navigating can't be read, and is captured as it is
+    const frameState: FrameState | null = await readFrameState(page).catch(() => null);
+    const lastFrame = this.lastFrames.get(page);
+    if (
+      reuseUnchanged &&
+      options.skipUnchanged &&
+      frameState?.key &&
+      lastFrame?.key === frameState.key
+    ) {
+      return lastFrame.screenshot;
+    }
+    
+    let screenshot: Screenshot;
+    try {
+      if (!this.cdpSession || this.cdpSessionPage !== page) {
+        await this.cdpSession?.detach().catch(() => {});
+        this.cdpSession = await page.context().newCDPSession(page);
+        this.cdpSessionPage = page;
+      }
+      screenshot = await captureViewport(page, this.cdpSession, options, frameState);
+    } catch (error) {
+      console.warn("CDP screenshot failed, falling back to standard screenshot:", error);
+      this.cdpSession = null;
+      this.cdpSessionPage = null;
+      screenshot = await captureViewportFallback(page, options);
+    }
+    
+    if (frameState?.key) {
+      this.lastFrames.set(page, { key: frameState.key, screenshot });
+    } else {
+      this.lastFrames.delete(page);
+    }
+    return screenshot;
   }
   
-  // Click action
-  async click(button: string = "left", x: number | string, y: number | string): Promise<void> {
+  /**
+   * Run an action, then wait for the page to settle as `strategy` describes before
+   * anything else happens, such as the screenshot that follows every action.
+   */
+  async settleAfter<T>(action: () => Promise<T>, strategy: SettleStrategy): Promise<T> {
+    if (!this._page || strategy.waitFor.length === 0) return action();
+    const watcher = new SettleWatcher(this._page.context(), strategy);
+    try {
+      const result = await action();
+      // The action may have opened a tab, which is now the active one
+      await watcher.settle(this._page);
+      return result;
+    } finally {
+      watcher.dispose();
+    }
+  }
+  
+  // Click action. The back and forward buttons navigate the history, as they do in
+  // a desktop browser, and the wheel button is a middle click. `keys` are modifiers
+  // held down during the click, e.g. ["ctrl"] to open a link in a new tab.
+  async click(
+    button: string = "left",
+    x: number | string,
+    y: number | string,
+    keys: string[] = []
+  ): Promise<void> {
     if (!this._page) throw new Error("Page not initialized");
+    if (button === "back") {
+      await this.back();
+      return;
+    }
+    if (button === "forward") {
+      await this.forward();
+      return;
+    }
+
     const parsedX = typeof x === 'string' ? parseInt(x, 10) : x;
     const parsedY = typeof y === 'string' ? parseInt(y, 10) : y;
     if (isNaN(parsedX) || isNaN(parsedY)) {
       throw new Error(`Invalid x or y coordinate: x=${x}, y=${y}`);
     }
-    if (button == "wheel") {
-      await this._page.mouse.wheel(parsedX, parsedY);
-    } else {
-      await this._page.mouse.click(parsedX, parsedY, { button: button as "left" | "right" | "middle" });
+    const mouseButton = button === "wheel" ? "middle" : button;
+    if (mouseButton !== "left" && mouseButton !== "right" && mouseButton !== "middle") {
+      throw new Error(`Invalid mouse button: ${button}`);
+    }
+    const modifiers = keys.map((key) => {
+      const modifier = toModifierKey(key);
+      if (!modifier) throw new Error(`Not a modifier key: ${key}`);
+      return modifier;
+    });
+
+    for (const modifier of modifiers) {
+      await this._page.keyboard.down(modifier);
+    }
+    try {
+      await this._page.mouse.click(parsedX, parsedY, { button: mouseButton });
+    } finally {
+      for (const modifier of modifiers.reverse()) {
+        await this._page.keyboard.up(modifier);
+      }
     }
   }
   
@@ -135,21 +383,22 @@ export abstract class BasePlaywrightComputer {
     await this._page.mouse.move(x, y);
   }
   
-  // Keypress action
+  // Keypress action. Modifiers are held down while the other keys are pressed in
+  // order, so ["ctrl", "shift", "t"] is a single chord.
   async keypress(keys: string[]): Promise<void> {
     if (!this._page) throw new Error("Page not initialized");
+    const chord = toKeyChord(keys);
 
-    // Support for hotkeys
-    if (HOTKEYS[keys[0].toLowerCase()]) {
-      await this._page.keyboard.down(HOTKEYS[keys[0].toLowerCase()]);
-      for (let i = 1; i < keys.length; i++) {
-        await this._page.keyboard.press(keys[i]);
+    for (const modifier of chord.modifiers) {
+      await this._page.keyboard.down(modifier);
+    }
+    try {
+      for (const key of chord.keys) {
+        await this._page.keyboard.press(key);
       }
-      await this._page.keyboard.up(HOTKEYS[keys[0].toLowerCase()]);
-    } else {
-      for (const key of keys) {
-        const mappedKey = CUA_KEY_TO_PLAYWRIGHT_KEY[key.toLowerCase()] || key;
-        await this._page.keyboard.press(mappedKey);
+    } finally {
+      for (const modifier of chord.modifiers.reverse()) {
+        await this._page.keyboard.up(modifier);
       }
     }
   }
@@ -170,15 +419,247 @@ export abstract class BasePlaywrightComputer {
   }
   
   // Go to URL action
-  async goto(url: string): Promise<void> {
+  async goto(url: string): Promise<PageState> {
     if (!this._page) throw new Error("Page not initialized");
-    await this._page.goto(url, { waitUntil: "domcontentloaded" });
+    const response = await this._page.goto(url, { waitUntil: "domcontentloaded" });
+    return { ...(await this.getPageState()), status: response?.status() ?? null };
   }
   
   // Go back action
-  async back(): Promise<void> {
+  async back(): Promise<PageState> {
+    if (!this._page) throw new Error("Page not initialized");
+    const response = await this._page.goBack();
+    return { ...(await this.getPageState()), status: response?.status() ?? null };
+  }
+  
+  // List open tabs
+  async list_tabs(): Promise<
+    { tab_id: string; title: string; url: string; active: boolean }[]
+  > {
+    if (!this._page) throw new Error("Page not initialized");
+    return Promise.all(
+      this._page.context().pages().map(async (page) => ({
+        tab_id: await getTabId(page),
+        title: await page.title().catch(() => ""),
+        url: page.url(),
+        active: page === this._page,
+      }))
+    );
+  }
+  
+  // Switch to another tab
+  async switch_tab(tab_id: string): Promise<PageState> {
+    await this.setActivePage(await this.findTab(tab_id));
+    return this.getPageState();
+  }
+  
+  // Close a tab, switching to the last remaining one if it was active
+  async close_tab(tab_id: string): Promise<PageState> {
+    if (!this._page) throw new Error("Page not initialized");
+    const page = await this.findTab(tab_id);
+    const remaining = page.context().pages().filter((p) => p !== page);
+    if (remaining.length === 0) {
+      throw new Error("Cannot close the last open tab");
+    }
+    await page.close();
+    if (page === this._page) {
+      await this.setActivePage(remaining[remaining.length - 1]);
+    }
+    return this.getPageState();
+  }
+  
+  private async findTab(tabId: string): Promise<Page> {
+    if (!this._page) throw new Error("Page not initialized");
+    for (const page of this._page.context().pages()) {
+      if ((await getTabId(page)) === tabId) return page;
+    }
+    throw new Error(`Tab ${tabId} not found`);
+  }
+  
+  // Visible text of the page, in slices for long pages
+  async get_page_text(start: number = 0): Promise<
+    { url: string; title: string } & ReturnType<typeof textSlice>
+  > {
+    if (!this._page) throw new Error("Page not initialized");
+    const text = await this._page
+      .locator("body")
+      .innerText()
+      .catch(() => "");
+    return {
+      url: this._page.url(),
+      title: await this._page.title(),
+      ...textSlice(text, start),
+    };
+  }
+  
+  // ARIA snapshot of the page: roles, names and states of its elements as YAML,
+  // without the values of password fields
+  async get_accessibility_tree(start: number = 0): Promise<
+    { url: string } & ReturnType<typeof textSlice>
+  > {
+    if (!this._page) throw new Error("Page not initialized");
+    const tree = await redactedAriaSnapshot(this._page);
+    return { url: this._page.url(), ...textSlice(tree, start) };
+  }
+  
+  /**
+   * Visible elements whose text, label or placeholder contains `text`, with the
+   * center of each in screenshot coordinates so the model can click it.
+   */
+  async find_element(text: string): Promise<
+    {
+      tag: string;
+      text: string;
+      x: number;
+      y: number;
+      in_viewport: boolean;
+    }[]
+  > {
+    if (!this._page) throw new Error("Page not initialized");
+    const page = this._page;
+    const matches = page
+      .getByText(text)
+      .or(page.getByLabel(text))
+      .or(page.getByPlaceholder(text));
+    const [width, height] = this.dimensions;
+    
+    const elements = [];
+    for (const element of await matches.all()) {
+      if (elements.length >= MAX_ELEMENTS) break;
+      const box = await element.boundingBox().catch(() => null);
+      if (!box || !(await element.isVisible())) continue;
+      
+      const x = Math.round(box.x + box.width / 2);
+      const y = Math.round(box.y + box.height / 2);
+      elements.push({
+        tag: await element.evaluate((el) => el.tagName.toLowerCase()),
+        text: (await element.innerText().catch(() => "")).trim().slice(0, 200),
+        x,
+        y,
+        in_viewport: x >= 0 && y >= 0 && x < width && y < height,
+      });
+    }
+    return elements;
+  }
+  
+  // Links on the page with their text and absolute URL
+  async read_links(): Promise<{ text: string; url: string }[]> {
+    if (!this._page) throw new Error("Page not initialized");
+    const links = await this._page.$$eval("a[href]", (anchors) =>
+      anchors.map((anchor) => ({
+        text: ((anchor as HTMLElement).innerText || anchor.getAttribute("aria-label") || "").trim(),
+        url: (anchor as HTMLAnchorElement).href,
+      }))
+    );
+    return links
+      .filter((link) => link.url.startsWith("http"))
+      .slice(0, MAX_LINKS);
+  }
+  
+  // URL of the current page
+  getCurrentUrl(): string {
+    if (!this._page) throw new Error("Page not initialized");
+    return this._page.url();
+  }
+  
+  // URL and title of the current page
+  async getPageState(): Promise<PageState> {
+    if (!this._page) throw new Error("Page not initialized");
+    return {
+      url: this._page.url(),
+      title: await this._page.title().catch(() => ""),
+    };
+  }
+  
+  // Whether keyboard input would land in a password field
+  async isPasswordFieldFocused(): Promise<boolean> {
+    if (!this._page) throw new Error("Page not initialized");
+    for (const frame of this._page.frames()) {
+      const focused = await frame
+        .evaluate(() => {
+          const element = document.activeElement;
+          return (
+            element instanceof HTMLInputElement && element.type === "password"
+          );
+        })
+        .catch(() => false);
+      if (focused) return true;
+    }
+    return false;
+  }
+  
+  // Go forward action
+  async forward(): Promise<PageState> {
+    if (!this._page) throw new Error("Page not initialized");
+    const response = await this._page.goForward();
+    return { ...(await this.getPageState()), status: response?.status() ?? null };
+  }
+  
+  /**
+   * Fill the login form on the current page with the saved credentials for `site`.
+   * Forms that ask for the username and password on separate pages are filled one
+   * field at a time. Frames on other origins than the login's `urls` are skipped.
+   * Only the names of the filled fields are returned to the model, or why nothing
+   * could be filled.
+   */
+  async fill_credentials(
+    site: string
+  ): Promise<{ site: string; filled: string[] } | { error: string; message: string }> {
     if (!this._page) throw new Error("Page not initialized");
-    await this._page.goBack();
+    let credential: Credential;
+    try {
+      credential = await getCredential(site, this._page.url());
+    } catch (error) {
+      if (!(error instanceof VaultError)) throw error;
+      return { error: "credentials_unavailable", message: error.message };
+    }
+    
+    for (const frame of this._page.frames()) {
+      // A frame from another origin, such as an ad or a widget, never gets the login
+      if (!isAllowedOrigin(credential, frame.url())) continue;
+      const password = frame.locator('input[type="password"]:visible').first();
+      const hasPassword = (await password.count()) > 0;
+      // Next to a password field, only look for the username in the same form
+      const form = password.locator("xpath=ancestor::form");
+      const scope = hasPassword && (await form.count()) > 0 ? form : frame;
+      const username = scope.locator(USERNAME_FIELDS).first();
+      
+      const filled: string[] = [];
+      if (await username.count()) {
+        await username.fill(credential.username);
+        filled.push("username");
+      }
+      if (hasPassword) {
+        await password.fill(credential.password);
+        filled.push("password");
+      }
+      if (filled.length > 0) {
+        return { site, filled };
+      }
+    }
+    return {
+      error: "login_form_not_found",
+      message: "No username or password field is visible on the current page",
+    };
+  }
+  
+  /**
+   * Load saved cookies and localStorage into the browser. Visits every origin that
+   * has localStorage, so navigate to the start page afterwards.
+   */
+  async loadProfile(profile: BrowserProfile): Promise<void> {
+    if (!this._page) throw new Error("Page not initialized");
+    if (profile.cookies?.length) {
+      await this._page.context().addCookies(profile.cookies);
+    }
+    for (const { origin, localStorage } of profile.origins ?? []) {
+      await this._page.goto(origin, { waitUntil: "domcontentloaded" });
+      await this._page.evaluate((items) => {
+        for (const { name, value } of items) {
+          window.localStorage.setItem(name, value);
+        }
+      }, localStorage);
+    }
   }
   
   // Subclass hook to be implemented by concrete implementations
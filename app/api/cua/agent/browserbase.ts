@@ -1,6 +1,12 @@
 import * as dotenv from "dotenv";
 import { Browser, Page, chromium } from "playwright";
-import { BasePlaywrightComputer } from "./base_playwright";
+import { BasePlaywrightComputer, PageState } from "./base_playwright";
+import {
+  DEFAULT_SESSION_SETTINGS,
+  getEmulationSettings,
+  getStartUrl,
+  SessionSettings,
+} from "./settings";
 import Browserbase from "@browserbasehq/sdk";
 import { SessionCreateResponse } from "@browserbasehq/sdk/resources/sessions/sessions.mjs";
 
@@ -11,19 +17,53 @@ interface BrowserbaseSession extends SessionCreateResponse {
   connectUrl: string;
 }
 
-// Define the type for session creation parameters
-interface SessionCreateParams {
-  projectId: string;
-  browserSettings: {
-    viewport: {
-      width: number;
-      height: number;
-    };
-    blockAds: boolean;
+/**
+ * Create a new Browserbase session for the app to drive, and look up its live view URL.
+ * This is the only place Browserbase sessions are created, so every session gets the
+ * same settings.
+ */
+export async function createBrowserbaseSession(
+  settings: SessionSettings = DEFAULT_SESSION_SETTINGS,
+  timeoutMs?: number
+): Promise<{ id: string; connectUrl: string; sessionUrl: string }> {
+  const bb = new Browserbase({ apiKey: process.env.BROWSERBASE_API_KEY! });
+  const session = await bb.sessions.create({
+    projectId: process.env.BROWSERBASE_PROJECT_ID!,
+    browserSettings: {
+      viewport: settings.viewport,
+      blockAds: settings.blockAds,
+    },
+    keepAlive: true,
+    region: settings.region,
+    proxies: settings.proxy,
+    // Browserbase ends the session itself after this many seconds, even if this
+    // server never gets to release it. It accepts 60 seconds to 6 hours.
+    ...(timeoutMs
+      ? {
+          api_timeout: Math.min(
+            Math.max(Math.ceil(timeoutMs / 1000), 60),
+            21600
+          ),
+        }
+      : {}),
+  });
+  const debug = await bb.sessions.debug(session.id);
+  return {
+    id: session.id,
+    connectUrl: session.connectUrl,
+    sessionUrl: debug.debuggerFullscreenUrl,
   };
-  region: "ap-southeast-1";
-  proxies: boolean;
-  keepAlive: boolean;
+}
+
+/**
+ * Ask Browserbase to end a session.
+ */
+export async function releaseBrowserbaseSession(sessionId: string): Promise<void> {
+  const bb = new Browserbase({ apiKey: process.env.BROWSERBASE_API_KEY! });
+  await bb.sessions.update(sessionId, {
+    projectId: process.env.BROWSERBASE_PROJECT_ID!,
+    status: "REQUEST_RELEASE",
+  });
 }
 
 export class BrowserbaseBrowser extends BasePlaywrightComputer {
@@ -33,17 +73,15 @@ export class BrowserbaseBrowser extends BasePlaywrightComputer {
    * You can find more information about Browserbase at https://docs.browserbase.com/ or view our OpenAI CUA Quickstart at https://docs.browserbase.com/integrations/openai-cua/introduction.
    */
 
-  private bb: Browserbase;
-  private projectId: string;
   private session: BrowserbaseSession | null = null;
-  private proxy: boolean;
-  private sessionId: string | null;
+  private settings: SessionSettings;
 
   constructor(
     width: number = 1024,
     height: number = 768,
     proxy: boolean = false,
-    sessionId: string | null = null
+    sessionId: string | null = null,
+    settings: Partial<SessionSettings> = {}
   ) {
     /**
      * Initialize the Browserbase instance. Additional configuration options for features such as persistent cookies, ad blockers, file downloads and more can be found in the Browserbase API documentation: https://docs.browserbase.com/reference/api/create-a-session
@@ -52,13 +90,20 @@ export class BrowserbaseBrowser extends BasePlaywrightComputer {
      * @param height - The height of the browser viewport. Default is 768.
      * @param proxy - Whether to use a proxy for the session. Default is False. Turn on proxies if you're browsing is frequently interrupted. https://docs.browserbase.com/features/proxies
      * @param sessionId - Optional. If provided, use an existing session instead of creating a new one.
+     * @param settings - Optional. Region, ad blocking, locale, timezone, user agent and start URL for the session. Width, height and proxy above take precedence.
      */
     super();
-    this.bb = new Browserbase({ apiKey: process.env.BROWSERBASE_API_KEY });
-    this.projectId = process.env.BROWSERBASE_PROJECT_ID!;
     this.session = null;
     this.dimensions = [width, height];
-    this.proxy = proxy;
+    this.settings = {
+      ...DEFAULT_SESSION_SETTINGS,
+      ...settings,
+      viewport: { width, height },
+      proxy,
+    };
+    // Browserbase has no session settings for these, so they are emulated over CDP
+    // while this connection is open
+    this.emulation = getEmulationSettings(this.settings);
     this.sessionId = sessionId;
   }
 
@@ -88,25 +133,9 @@ export class BrowserbaseBrowser extends BasePlaywrightComputer {
         connectUrl: data.connectUrl,
       } as unknown as BrowserbaseSession;
     } else {
-      // Create a new session on Browserbase with specified parameters
-      const [width, height] = this.dimensions;
-      const sessionParams: SessionCreateParams = {
-        projectId: this.projectId,
-        browserSettings: {
-          blockAds: true,
-          viewport: {
-            width,
-            height,
-          },
-        },
-        region: "ap-southeast-1",
-        proxies: this.proxy,
-        keepAlive: true,
-      };
-
-      this.session = (await this.bb.sessions.create(
-        sessionParams
-      )) as unknown as BrowserbaseSession;
+      // Create a new session on Browserbase with the configured settings
+      const { connectUrl } = await createBrowserbaseSession(this.settings);
+      this.session = { connectUrl } as unknown as BrowserbaseSession;
     }
 
     if (!this.session) {
@@ -156,46 +185,14 @@ export class BrowserbaseBrowser extends BasePlaywrightComputer {
       console.error("Error injecting cursor-rendering script:", error);
     });
 
-    // Only navigate to Google if it's a new session
+    // Only navigate to the start page if it's a new session
     if (!this.sessionId) {
-      await page.goto("https://www.google.com");
+      await page.goto(getStartUrl("browserbase", this.settings));
     }
 
     return [browser, page];
   }
 
-  async screenshot(): Promise<string> {
-    /**
-     * Capture a screenshot of the current viewport using CDP.
-     *
-     * @returns A base64 encoded string of the screenshot.
-     */
-    if (!this._page) {
-      throw new Error("Page not initialized");
-    }
-
-    try {
-      // Get CDP session from the page
-      const cdpSession = await this._page.context().newCDPSession(this._page);
-
-      // Capture screenshot using CDP
-      const { data } = await cdpSession.send("Page.captureScreenshot", {
-        format: "png",
-        fromSurface: true,
-      });
-
-      return data; // CDP already returns base64 encoded string
-    } catch (error) {
-      console.warn(
-        "CDP screenshot failed, falling back to standard screenshot:",
-        error
-      );
-      // Fall back to standard Playwright screenshot
-      const buffer = await this._page.screenshot({ type: "png" });
-      return buffer.toString("base64");
-    }
-  }
-
   async refresh(): Promise<void> {
     /**
      * Refresh the current page.
@@ -207,19 +204,21 @@ export class BrowserbaseBrowser extends BasePlaywrightComputer {
     await this._page.reload();
   }
 
-  async goto(url: string): Promise<void> {
+  async goto(url: string): Promise<PageState> {
     if (!this._page) {
       throw new Error("Page not initialized");
     }
 
-    await this._page.goto(url);
+    const response = await this._page.goto(url);
+    return { ...(await this.getPageState()), status: response?.status() ?? null };
   }
 
-  async back(): Promise<void> {
+  async back(): Promise<PageState> {
     if (!this._page) {
       throw new Error("Page not initialized");
     }
 
-    await this._page.goBack();
+    const response = await this._page.goBack();
+    return { ...(await this.getPageState()), status: response?.status() ?? null };
   }
 }
@@ -0,0 +1,53 @@
+import { BasePlaywrightComputer } from "./base_playwright";
+import { BrowserbaseBrowser } from "./browserbase";
+import { isLocalSessionId, LocalPlaywrightBrowser } from "./local";
+import { getSessionRecord } from "./sessions";
+import { DEFAULT_SESSION_SETTINGS, SessionSettingsError } from "./settings";
+
+export type BrowserBackend = "browserbase" | "local";
+
+const BACKENDS: BrowserBackend[] = ["browserbase", "local"];
+
+/**
+ * Resolve which browser backend to use for a new session. An explicit request value
+ * wins over the `BROWSER_BACKEND` env var; Browserbase is the default.
+ */
+export function resolveBackend(requested?: unknown): BrowserBackend {
+  const backend = requested || process.env.BROWSER_BACKEND || "browserbase";
+  if (!BACKENDS.includes(backend as BrowserBackend)) {
+    const message =
+      `Unknown browser backend ${JSON.stringify(backend)}. ` +
+      `Expected one of: ${BACKENDS.join(", ")}`;
+    // A bad request value is the caller's mistake; a bad env var is the server's
+    throw requested ? new SessionSettingsError(message) : new Error(message);
+  }
+  return backend as BrowserBackend;
+}
+
+/**
+ * The backend of an existing session is encoded in its ID, so step routes only need
+ * the session ID to reconnect.
+ */
+export function getSessionBackend(sessionId: string): BrowserBackend {
+  return isLocalSessionId(sessionId) ? "local" : "browserbase";
+}
+
+/**
+ * Create a computer for an existing session, with the settings the session was
+ * created with. Call `connect()` before using it.
+ */
+export function createComputer(sessionId: string): BasePlaywrightComputer {
+  const settings =
+    getSessionRecord(sessionId)?.settings ?? DEFAULT_SESSION_SETTINGS;
+  const { width, height } = settings.viewport;
+  if (getSessionBackend(sessionId) === "local") {
+    return new LocalPlaywrightBrowser(width, height, sessionId, settings);
+  }
+  return new BrowserbaseBrowser(
+    width,
+    height,
+    settings.proxy,
+    sessionId,
+    settings
+  );
+}
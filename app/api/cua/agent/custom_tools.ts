@@ -0,0 +1,24 @@
+import type { CustomTool } from "./tools";
+
+/**
+ * Your own function tools, offered to the model in every task next to the browser
+ * tools. For example:
+ *
+ * ```ts
+ * {
+ *   name: "lookup_order",
+ *   description: "Look up an order in our order system by its ID.",
+ *   parameters: {
+ *     type: "object",
+ *     properties: { order_id: { type: "string" } },
+ *     required: ["order_id"],
+ *     additionalProperties: false,
+ *   },
+ *   handler: async ({ order_id }) => {
+ *     const response = await fetch(`${process.env.ORDERS_API_URL}/orders/${order_id}`);
+ *     return response.json();
+ *   },
+ * }
+ * ```
+ */
+export const CUSTOM_TOOLS: CustomTool[] = [];
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { isKnownKey, normalizeKey, toKeyChord, typesText } from "./keys";
+
+describe("normalizeKey", () => {
+  it.each([
+    ["enter", "Enter"],
+    ["ENTER", "Enter"],
+    ["Return", "Enter"],
+    ["esc", "Escape"],
+    ["ctrl", "Control"],
+    ["CMD", "Meta"],
+    ["space", " "],
+    ["PageDown", "PageDown"],
+    ["pgup", "PageUp"],
+    ["Page_Down", "PageDown"],
+    ["page-up", "PageUp"],
+    ["/", "/"],
+    ["T", "T"],
+    ["t", "t"],
+    ["f1", "F1"],
+    ["F12", "F12"],
+    ["f24", "F24"],
+    ["slash", "Slash"],
+    ["BACKSLASH", "Backslash"],
+    ["comma", "Comma"],
+    ["period", "Period"],
+    ["semicolon", "Semicolon"],
+    ["equals", "Equal"],
+    ["bracketleft", "BracketLeft"],
+    ["backquote", "Backquote"],
+    ["nope", "nope"],
+  ])("%j is %j", (key, expected) => {
+    expect(normalizeKey(key)).toBe(expected);
+  });
+});
+
+describe("isKnownKey", () => {
+  it.each([
+    ["a", true],
+    ["/", true],
+    ["PageDown", true],
+    ["f24", true],
+    ["f25", false],
+    ["nope", false],
+    ["constructor", false],
+    ["", false],
+  ])("%j is %j", (key, expected) => {
+    expect(isKnownKey(key)).toBe(expected);
+  });
+});
+
+describe("toKeyChord", () => {
+  it.each([
+    [["ctrl", "shift", "t"], { modifiers: ["Control", "Shift"], keys: ["T"] }],
+    [["CTRL", "ENTER"], { modifiers: ["Control"], keys: ["Enter"] }],
+    [["ctrl", "T"], { modifiers: ["Control"], keys: ["t"] }],
+    [["t", "cmd"], { modifiers: ["Meta"], keys: ["t"] }],
+    [["shift", "ctrl", "SHIFT", "a"], { modifiers: ["Shift", "Control"], keys: ["A"] }],
+    [["shift", "/"], { modifiers: ["Shift"], keys: ["/"] }],
+    [["/"], { modifiers: [], keys: ["/"] }],
+    [["T"], { modifiers: [], keys: ["T"] }],
+    [["alt", "f4"], { modifiers: ["Alt"], keys: ["F4"] }],
+    [["h", "i", "enter"], { modifiers: [], keys: ["h", "i", "Enter"] }],
+    [["shift"], { modifiers: ["Shift"], keys: [] }],
+    [["ctrl", "alt"], { modifiers: ["Control", "Alt"], keys: [] }],
+  ])("%j", (keys, expected) => {
+    expect(toKeyChord(keys)).toEqual(expected);
+  });
+});
+
+describe("typesText", () => {
+  it.each([
+    [["h"], true],
+    [["h", "u", "n"], true],
+    [["shift", "1"], true],
+    [["space"], true],
+    [["enter", "a"], true],
+    [["ctrl", "a"], false],
+    [["cmd", "v"], false],
+    [["alt", "f4"], false],
+    [["enter"], false],
+    [["shift", "tab"], false],
+    [["backspace"], false],
+    [["shift"], false],
+  ])("%j is %j", (keys, expected) => {
+    expect(typesText(keys)).toBe(expected);
+  });
+});
@@ -0,0 +1,145 @@
+// Key names the model uses, lowercased, and the Playwright keys they stand for
+const CUA_KEY_TO_PLAYWRIGHT_KEY: Record<string, string> = {
+  "alt": "Alt",
+  "option": "Alt",
+  "ctrl": "Control",
+  "control": "Control",
+  "shift": "Shift",
+  "meta": "Meta",
+  "cmd": "Meta",
+  "command": "Meta",
+  "super": "Meta",
+  "win": "Meta",
+  "arrowdown": "ArrowDown",
+  "arrowleft": "ArrowLeft",
+  "arrowright": "ArrowRight",
+  "arrowup": "ArrowUp",
+  "up": "ArrowUp",
+  "down": "ArrowDown",
+  "left": "ArrowLeft",
+  "right": "ArrowRight",
+  "backspace": "Backspace",
+  "capslock": "CapsLock",
+  "delete": "Delete",
+  "del": "Delete",
+  "end": "End",
+  "enter": "Enter",
+  "return": "Enter",
+  "esc": "Escape",
+  "escape": "Escape",
+  "home": "Home",
+  "insert": "Insert",
+  "ins": "Insert",
+  "pagedown": "PageDown",
+  "pgdn": "PageDown",
+  "pageup": "PageUp",
+  "pgup": "PageUp",
+  "space": " ",
+  "spacebar": " ",
+  "tab": "Tab",
+  "contextmenu": "ContextMenu",
+  "menu": "ContextMenu",
+  "numlock": "NumLock",
+  "scrolllock": "ScrollLock",
+  "pause": "Pause",
+  "printscreen": "PrintScreen",
+  // Punctuation by name; the characters themselves are pressed as they are
+  "backquote": "Backquote",
+  "backslash": "Backslash",
+  "bracketleft": "BracketLeft",
+  "bracketright": "BracketRight",
+  "comma": "Comma",
+  "equal": "Equal",
+  "equals": "Equal",
+  "minus": "Minus",
+  "period": "Period",
+  "quote": "Quote",
+  "semicolon": "Semicolon",
+  "slash": "Slash",
+  ...Object.fromEntries(
+    Array.from({ length: 24 }, (_, i) => [`f${i + 1}`, `F${i + 1}`])
+  ),
+};
+
+const MODIFIER_KEYS = ["Alt", "Control", "Meta", "Shift"];
+
+/**
+ * The Playwright name of a key from the model. Key names are matched regardless of
+ * case, so `"ENTER"` and `"enter"` are both `"Enter"`. Unknown names are passed on
+ * as they are; check them with `isKnownKey` first. Single characters are kept
+ * as they are, so `"/"` types a slash and `"T"` a capital T.
+ */
+export function normalizeKey(key: string): string {
+  if (key.length === 1) return key;
+  return lookupKeyName(key) ?? key;
+}
+
+// Key names ignore case, underscores and dashes, so "Page_Down" is "PageDown"
+function lookupKeyName(key: string): string | undefined {
+  const name = key.toLowerCase().replace(/[_-]/g, "");
+  return Object.hasOwn(CUA_KEY_TO_PLAYWRIGHT_KEY, name)
+    ? CUA_KEY_TO_PLAYWRIGHT_KEY[name]
+    : undefined;
+}
+
+/**
+ * Whether `key` is a single character or a key name this module knows, so that it
+ * can be pressed.
+ */
+export function isKnownKey(key: string): boolean {
+  return key.length === 1 || lookupKeyName(key) !== undefined;
+}
+
+/**
+ * The Playwright name of a modifier key, such as `"ctrl"` or `"shift"`, or
+ * undefined if `key` isn't a modifier.
+ */
+export function toModifierKey(key: string): string | undefined {
+  const normalized = normalizeKey(key);
+  return MODIFIER_KEYS.includes(normalized) ? normalized : undefined;
+}
+
+/** A keypress: modifiers held down while the other keys are pressed in order. */
+export type KeyChord = { modifiers: string[]; keys: string[] };
+
+/**
+ * Split the keys of a keypress action into a chord. Modifiers can appear anywhere,
+ * so `["ctrl", "shift", "t"]` holds Control and Shift while pressing T. A keypress
+ * of only modifiers, like `["shift"]`, presses and releases them.
+ */
+export function toKeyChord(keys: string[]): KeyChord {
+  const modifiers = new Set<string>();
+  const pressed: string[] = [];
+  for (const key of keys) {
+    const modifier = toModifierKey(key);
+    if (modifier) {
+      modifiers.add(modifier);
+    } else {
+      pressed.push(normalizeKey(key));
+    }
+  }
+  // In a chord Shift decides the case of letters, as on a real keyboard: ["ctrl", "T"]
+  // is Control+T, and ["shift", "t"] sends "T", which Playwright doesn't do itself
+  const shift = modifiers.has("Shift");
+  return {
+    modifiers: Array.from(modifiers),
+    keys:
+      modifiers.size > 0
+        ? pressed.map((key) =>
+            /^[a-z]$/i.test(key) ? (shift ? key.toUpperCase() : key.toLowerCase()) : key
+          )
+        : pressed,
+  };
+}
+
+/**
+ * Whether a keypress enters text into the focused field: it presses a character
+ * without Control, Alt or Meta held, such as `["h"]` or `["shift", "1"]`.
+ */
+export function typesText(keys: string[]): boolean {
+  const chord = toKeyChord(keys);
+  return (
+    chord.modifiers.every((modifier) => modifier === "Shift") &&
+    chord.keys.some((key) => key.length === 1)
+  );
+}
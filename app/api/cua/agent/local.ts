@@ -0,0 +1,178 @@
+import { randomUUID } from "crypto";
+import { Browser, BrowserContext, Page, chromium } from "playwright";
+import { BasePlaywrightComputer } from "./base_playwright";
+import {
+  DEFAULT_SESSION_SETTINGS,
+  getStartUrl,
+  SessionSettings,
+} from "./settings";
+import { clearActiveTab, getTabId } from "./tabs";
+
+export const LOCAL_SESSION_PREFIX = "local-";
+
+interface LocalSession {
+  id: string;
+  browser: Browser;
+  context: BrowserContext;
+  /** The settings the browser was launched with. */
+  settings: SessionSettings;
+  createdAt: number;
+}
+
+// Keep launched browsers on globalThis so they survive hot reloads in development.
+const globalForLocal = globalThis as unknown as {
+  localSessions?: Map<string, LocalSession>;
+};
+const localSessions =
+  globalForLocal.localSessions ?? new Map<string, LocalSession>();
+globalForLocal.localSessions = localSessions;
+
+export function isLocalSessionId(sessionId: string | null | undefined): boolean {
+  return !!sessionId && sessionId.startsWith(LOCAL_SESSION_PREFIX);
+}
+
+/**
+ * Launch a local headless Chromium and register it under a new session ID.
+ * The browser lives in this server process until `releaseLocalSession` is called.
+ */
+export async function launchLocalSession(
+  settings: SessionSettings = DEFAULT_SESSION_SETTINGS
+): Promise<LocalSession> {
+  const browser = await chromium.launch({
+    headless: process.env.LOCAL_BROWSER_HEADLESS !== "false",
+    executablePath: process.env.LOCAL_BROWSER_EXECUTABLE_PATH || undefined,
+  });
+  let context: BrowserContext;
+  try {
+    context = await browser.newContext({
+      viewport: settings.viewport,
+      locale: settings.locale ?? undefined,
+      timezoneId: settings.timezone ?? undefined,
+      userAgent: settings.userAgent ?? undefined,
+    });
+    const page = await context.newPage();
+    await page.goto(getStartUrl("local", settings), {
+      waitUntil: "domcontentloaded",
+    });
+  } catch (error) {
+    // Don't leave the browser running when the start page can't be opened.
+    await browser.close();
+    throw error;
+  }
+
+  const session: LocalSession = {
+    id: `${LOCAL_SESSION_PREFIX}${randomUUID()}`,
+    browser,
+    context,
+    settings,
+    createdAt: Date.now(),
+  };
+  localSessions.set(session.id, session);
+
+  // Drop the session if the browser goes away on its own (crash, manual close).
+  browser.on("disconnected", () => {
+    localSessions.delete(session.id);
+  });
+
+  return session;
+}
+
+export function getLocalSession(sessionId: string): LocalSession | undefined {
+  return localSessions.get(sessionId);
+}
+
+export async function releaseLocalSession(sessionId: string): Promise<void> {
+  const session = localSessions.get(sessionId);
+  if (!session) return;
+  localSessions.delete(sessionId);
+  clearActiveTab(sessionId);
+  await session.browser.close();
+}
+
+/**
+ * List the open pages of a local session in the same shape as the Browserbase
+ * debug API, so the tabs UI can treat both backends alike.
+ */
+export async function getLocalPages(sessionId: string) {
+  const session = localSessions.get(sessionId);
+  if (!session) {
+    throw new Error(`Local session ${sessionId} not found`);
+  }
+
+  return Promise.all(
+    session.context.pages().map(async (page) => {
+      return {
+        id: await getTabId(page),
+        debuggerFullscreenUrl: "",
+        debuggerUrl: "",
+        faviconUrl: "",
+        title: await page.title(),
+        url: page.url(),
+      };
+    })
+  );
+}
+
+export class LocalPlaywrightBrowser extends BasePlaywrightComputer {
+  /**
+   * Local headless Chromium launched through Playwright. Useful for CI and offline
+   * development, where no Browserbase credentials or network access are available.
+   */
+
+  private settings: SessionSettings;
+
+  constructor(
+    width: number = 1024,
+    height: number = 768,
+    sessionId: string | null = null,
+    settings: SessionSettings = DEFAULT_SESSION_SETTINGS
+  ) {
+    /**
+     * @param width - The width of the browser viewport. Default is 1024.
+     * @param height - The height of the browser viewport. Default is 768.
+     * @param sessionId - Optional. If provided, attach to a browser previously launched by `launchLocalSession`.
+     * @param settings - Optional. The session's settings. A locale, timezone or user agent the browser wasn't launched with is emulated.
+     */
+    super();
+    this.dimensions = [width, height];
+    this.sessionId = sessionId;
+    this.settings = settings;
+  }
+
+  protected async _getBrowserAndPage(): Promise<[Browser, Page]> {
+    let session: LocalSession | undefined;
+    if (this.sessionId) {
+      session = getLocalSession(this.sessionId);
+      if (!session) {
+        throw new Error(`Local session ${this.sessionId} not found`);
+      }
+      // A warm session handed out for a task gets that task's settings after launch
+      const launched = session.settings;
+      const { locale, timezone, userAgent } = this.settings;
+      this.emulation = {
+        locale: locale !== launched.locale ? locale : null,
+        timezone: timezone !== launched.timezone ? timezone : null,
+        userAgent: userAgent !== launched.userAgent ? userAgent : null,
+      };
+    } else {
+      const [width, height] = this.dimensions;
+      session = await launchLocalSession({
+        ...DEFAULT_SESSION_SETTINGS,
+        viewport: { width, height },
+      });
+      this.sessionId = session.id;
+    }
+
+    const pages = session.context.pages();
+    const page = pages[pages.length - 1] ?? (await session.context.newPage());
+    return [session.browser, page];
+  }
+
+  async disconnect(): Promise<void> {
+    // The browser is shared across requests for this session; it is closed by
+    // `releaseLocalSession` rather than when a single request is done with it.
+    this.stopTrackingTabs();
+    this._browser = null;
+    this._page = null;
+  }
+}
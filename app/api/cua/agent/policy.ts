@@ -0,0 +1,157 @@
+/**
+ * Guardrails applied to every action the model asks for.
+ *
+ * - `allowedDomains`: when non-empty, only these hosts (and their subdomains) may be
+ *   visited.
+ * - `deniedDomains`: hosts (and their subdomains) that may never be visited. Wins
+ *   over `allowedDomains`.
+ * - `allowPasswordTyping`: whether the model may type into password fields.
+ * - `maxActions`: how many actions one run may take in total.
+ */
+export interface ActionPolicy {
+  allowedDomains: string[];
+  deniedDomains: string[];
+  allowPasswordTyping: boolean;
+  maxActions: number | null;
+}
+
+export type PolicyViolationCode =
+  | "domain_not_allowed"
+  | "domain_denied"
+  | "password_typing_blocked"
+  | "max_actions_exceeded";
+
+export type PolicyViolation = {
+  code: PolicyViolationCode;
+  message: string;
+};
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * The policy configured by `CUA_ALLOWED_DOMAINS`, `CUA_DENIED_DOMAINS` (comma
+ * separated), `CUA_ALLOW_PASSWORD_TYPING` and `CUA_MAX_ACTIONS`.
+ */
+export function getDefaultPolicy(): ActionPolicy {
+  const maxActions = Number(process.env.CUA_MAX_ACTIONS);
+  return {
+    allowedDomains: parseList(process.env.CUA_ALLOWED_DOMAINS),
+    deniedDomains: parseList(process.env.CUA_DENIED_DOMAINS),
+    allowPasswordTyping: process.env.CUA_ALLOW_PASSWORD_TYPING === "true",
+    maxActions: Number.isInteger(maxActions) && maxActions > 0 ? maxActions : null,
+  };
+}
+
+// "example.com" and "*.example.com" both match example.com and any subdomain.
+function matchesDomain(hostname: string, domain: string): boolean {
+  const bare = domain.replace(/^\*\./, "");
+  return hostname === bare || hostname.endsWith(`.${bare}`);
+}
+
+/**
+ * Tracks and checks the actions of one run against an `ActionPolicy`. A run that
+ * builds several agents passes the same enforcer to each, so its action count
+ * carries over.
+ */
+export class PolicyEnforcer {
+  readonly policy: ActionPolicy;
+  private actionCount: number = 0;
+
+  constructor(policy: ActionPolicy = getDefaultPolicy()) {
+    this.policy = policy;
+  }
+
+  /**
+   * Count an action against the budget. Returns a violation once the budget is spent.
+   */
+  countAction(): PolicyViolation | null {
+    const { maxActions } = this.policy;
+    if (maxActions !== null && this.actionCount >= maxActions) {
+      return {
+        code: "max_actions_exceeded",
+        message: `The action limit of ${maxActions} has been reached. Do not take any more actions; summarize what you found for the user.`,
+      };
+    }
+    this.actionCount++;
+    return null;
+  }
+
+  checkUrl(url: string): PolicyViolation | null {
+    // Blank pages carry no content, and are where blocked navigations end up.
+    if (url === "about:blank") return null;
+
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      hostname = "";
+    }
+
+    if (
+      hostname &&
+      this.policy.deniedDomains.some((domain) => matchesDomain(hostname, domain))
+    ) {
+      return {
+        code: "domain_denied",
+        message: `Navigation to ${url} is blocked by policy. Do not try to visit ${hostname} again.`,
+      };
+    }
+
+    if (
+      this.policy.allowedDomains.length > 0 &&
+      !this.policy.allowedDomains.some(
+        (domain) => hostname && matchesDomain(hostname, domain)
+      )
+    ) {
+      return {
+        code: "domain_not_allowed",
+        message: `Navigation to ${url} is blocked by policy. Only these domains may be visited: ${this.policy.allowedDomains.join(", ")}.`,
+      };
+    }
+
+    return null;
+  }
+
+  checkTyping(isPasswordField: boolean): PolicyViolation | null {
+    if (isPasswordField && !this.policy.allowPasswordTyping) {
+      return {
+        code: "password_typing_blocked",
+        message:
+          "Typing into password fields is blocked by policy. Ask the user to enter the password themselves.",
+      };
+    }
+    return null;
+  }
+}
+
+// Step routes build a new agent for every request, so the enforcer of a session
+// driven step by step is kept here. On globalThis so it survives hot reloads in
+// development.
+const globalForPolicy = globalThis as unknown as {
+  sessionEnforcers?: Map<string, PolicyEnforcer>;
+};
+const sessionEnforcers =
+  globalForPolicy.sessionEnforcers ?? new Map<string, PolicyEnforcer>();
+globalForPolicy.sessionEnforcers = sessionEnforcers;
+
+/**
+ * The enforcer for the actions taken on a session through the step routes, so the
+ * action cap covers the whole conversation rather than a single request.
+ */
+export function getSessionPolicyEnforcer(sessionId: string): PolicyEnforcer {
+  let enforcer = sessionEnforcers.get(sessionId);
+  if (!enforcer) {
+    enforcer = new PolicyEnforcer();
+    sessionEnforcers.set(sessionId, enforcer);
+  }
+  return enforcer;
+}
+
+export function clearSessionPolicyEnforcer(sessionId: string) {
+  sessionEnforcers.delete(sessionId);
+}
@@ -0,0 +1,288 @@
+import { BasePlaywrightComputer } from "./base_playwright";
+import {
+  createBrowserbaseSession,
+  releaseBrowserbaseSession,
+} from "./browserbase";
+import { BrowserBackend, createComputer } from "./computer";
+import {
+  isLocalSessionId,
+  launchLocalSession,
+  releaseLocalSession,
+} from "./local";
+import { clearSessionPolicyEnforcer } from "./policy";
+import {
+  getSessionRecord,
+  listActiveSessions,
+  markSessionEnded,
+  registerSession,
+  SESSION_IDLE_TIMEOUT_MS,
+  SESSION_MAX_LIFETIME_MS,
+  SessionEndReason,
+  setSessionOwner,
+  touchSession,
+  updateSessionSettings,
+} from "./sessions";
+import {
+  canUseWarmSession,
+  DEFAULT_SESSION_SETTINGS,
+  getEmulationSettings,
+  getStartUrl,
+  isDefaultSettings,
+  SessionSettings,
+} from "./settings";
+import { clearActiveTab } from "./tabs";
+import { getProfile } from "./vault";
+
+/**
+ * Idle connections are closed after `CUA_POOL_IDLE_MS` (default 5 minutes); the
+ * session itself stays open until it is ended or reaped.
+ * `CUA_POOL_SIZE` (default 0) sessions per backend are kept warm for new tasks.
+ */
+const IDLE_TIMEOUT_MS = Number(process.env.CUA_POOL_IDLE_MS) || 5 * 60 * 1000;
+const POOL_SIZE = Number(process.env.CUA_POOL_SIZE) || 0;
+const SWEEP_INTERVAL_MS = 30 * 1000;
+
+export type SessionInfo = {
+  id: string;
+  backend: BrowserBackend;
+  sessionUrl: string | null;
+  connectUrl: string | null;
+};
+
+interface Connection {
+  ready: Promise<BasePlaywrightComputer>;
+  refs: number;
+  lastUsedAt: number;
+}
+
+// Keep connections and warm sessions on globalThis so they survive hot reloads in
+// development.
+const globalForPool = globalThis as unknown as {
+  connections?: Map<string, Connection>;
+  warmSessions?: Map<BrowserBackend, Promise<SessionInfo | null>[]>;
+  poolSweeper?: NodeJS.Timeout;
+};
+const connections =
+  globalForPool.connections ?? new Map<string, Connection>();
+globalForPool.connections = connections;
+const warmSessions =
+  globalForPool.warmSessions ??
+  new Map<BrowserBackend, Promise<SessionInfo | null>[]>();
+globalForPool.warmSessions = warmSessions;
+
+if (!globalForPool.poolSweeper) {
+  globalForPool.poolSweeper = setInterval(sweep, SWEEP_INTERVAL_MS);
+  globalForPool.poolSweeper.unref();
+}
+
+/**
+ * Close idle connections, and end sessions that were abandoned or have reached their
+ * maximum lifetime.
+ */
+function sweep() {
+  const now = Date.now();
+  for (const [sessionId, connection] of connections) {
+    if (connection.refs === 0 && now - connection.lastUsedAt > IDLE_TIMEOUT_MS) {
+      closeComputer(sessionId).catch((error) => {
+        console.error(`Error closing idle connection to ${sessionId}:`, error);
+      });
+    }
+  }
+
+  for (const session of listActiveSessions()) {
+    const inUse = (connections.get(session.id)?.refs ?? 0) > 0;
+    let reason: SessionEndReason | null = null;
+    if (now - session.createdAt > SESSION_MAX_LIFETIME_MS) {
+      reason = "max_lifetime";
+    } else if (!inUse && now - session.lastActivityAt > SESSION_IDLE_TIMEOUT_MS) {
+      reason = "idle_timeout";
+    }
+    if (reason) {
+      endSession(session.id, reason).catch((error) => {
+        console.error(`Error ending session ${session.id}:`, error);
+      });
+    }
+  }
+}
+
+/**
+ * Get a connected computer for a session, reusing the cached connection when it is
+ * still alive. Every call must be paired with `releaseComputer` once the caller is
+ * done, so that idle connections can be closed.
+ */
+export async function acquireComputer(
+  sessionId: string
+): Promise<BasePlaywrightComputer> {
+  let connection = connections.get(sessionId);
+  if (connection) {
+    const computer = await connection.ready.catch(() => null);
+    if (!computer?.isConnected() && connections.get(sessionId) === connection) {
+      connections.delete(sessionId);
+    }
+    // Another request may have replaced a dead connection in the meantime.
+    connection = connections.get(sessionId);
+  }
+
+  if (!connection) {
+    const computer = createComputer(sessionId);
+    connection = { ready: computer.connect(), refs: 0, lastUsedAt: Date.now() };
+    connections.set(sessionId, connection);
+  }
+
+  connection.refs++;
+  connection.lastUsedAt = Date.now();
+  touchSession(sessionId);
+  try {
+    return await connection.ready;
+  } catch (error) {
+    if (connections.get(sessionId) === connection) {
+      connections.delete(sessionId);
+    }
+    throw error;
+  }
+}
+
+export function releaseComputer(sessionId: string) {
+  const connection = connections.get(sessionId);
+  if (!connection) return;
+  connection.refs = Math.max(0, connection.refs - 1);
+  connection.lastUsedAt = Date.now();
+  touchSession(sessionId);
+}
+
+/**
+ * Drop the cached connection of a session, e.g. when the session ends.
+ */
+export async function closeComputer(sessionId: string): Promise<void> {
+  const connection = connections.get(sessionId);
+  if (!connection) return;
+  connections.delete(sessionId);
+  const computer = await connection.ready.catch(() => null);
+  await computer?.disconnect();
+}
+
+/**
+ * Create a session, register it and connect to it. With `holdConnection`, the caller
+ * keeps the connection acquired and must release it later.
+ */
+async function createSession(
+  backend: BrowserBackend,
+  settings: SessionSettings,
+  holdConnection: boolean = false
+): Promise<SessionInfo> {
+  // Look the profile up first, so an unknown profile doesn't leave a browser behind
+  const profile = settings.profile ? await getProfile(settings.profile) : null;
+
+  let session: SessionInfo;
+  if (backend === "local") {
+    const { id } = await launchLocalSession(settings);
+    session = { id, backend, sessionUrl: null, connectUrl: null };
+  } else {
+    const { id, connectUrl, sessionUrl } = await createBrowserbaseSession(
+      settings,
+      SESSION_MAX_LIFETIME_MS
+    );
+    session = { id, backend, sessionUrl, connectUrl };
+  }
+  registerSession(session.id, backend, null, settings);
+
+  // Connect right away, so the first step of the task reuses the connection.
+  const computer = await acquireComputer(session.id);
+  try {
+    if (profile) {
+      await computer.loadProfile(profile);
+    }
+    // Local sessions open their start page when they are launched
+    if (profile || backend === "browserbase") {
+      await computer.goto(getStartUrl(backend, settings));
+    }
+  } catch (error) {
+    releaseComputer(session.id);
+    throw error;
+  }
+  if (!holdConnection) {
+    releaseComputer(session.id);
+  }
+  return session;
+}
+
+function refillPool(backend: BrowserBackend) {
+  const pool = warmSessions.get(backend) ?? [];
+  warmSessions.set(backend, pool);
+
+  while (pool.length < POOL_SIZE) {
+    // Hold the connection while the session waits in the pool.
+    pool.push(
+      createSession(backend, DEFAULT_SESSION_SETTINGS, true).catch((error) => {
+        console.error(`Error warming ${backend} session:`, error);
+        return null;
+      })
+    );
+  }
+}
+
+/**
+ * Get a session for a new task and assign it to `owner`. Sessions with the default
+ * settings, apart from the emulated locale, timezone and user agent, come from the
+ * warm pool when one is ready, and the pool is topped up in the background.
+ */
+export async function acquireSession(
+  backend: BrowserBackend,
+  owner: string | null = null,
+  settings: SessionSettings = DEFAULT_SESSION_SETTINGS
+): Promise<SessionInfo> {
+  if (!canUseWarmSession(settings)) {
+    const session = await createSession(backend, settings);
+    setSessionOwner(session.id, owner);
+    return session;
+  }
+
+  const pool = warmSessions.get(backend) ?? [];
+  const warm = pool.shift();
+  refillPool(backend);
+
+  let session = await warm;
+  if (session) {
+    const { id } = session;
+    const computer = await connections.get(id)?.ready.catch(() => null);
+    try {
+      if (!computer?.isConnected()) {
+        session = null;
+      } else if (!isDefaultSettings(settings)) {
+        // Warm sessions start with the defaults; emulate what the task asks for
+        updateSessionSettings(id, settings);
+        await computer.setEmulation(getEmulationSettings(settings));
+      }
+    } catch (error) {
+      console.error(`Error applying settings to warm session ${id}:`, error);
+      endSession(id).catch(() => {});
+      session = null;
+    } finally {
+      releaseComputer(id);
+    }
+  }
+  session = session ?? (await createSession(backend, settings));
+
+  setSessionOwner(session.id, owner);
+  return session;
+}
+
+/**
+ * End a session: close its connection and release the browser.
+ */
+export async function endSession(
+  sessionId: string,
+  reason: SessionEndReason = "released"
+): Promise<void> {
+  if (getSessionRecord(sessionId)?.status === "ended") return;
+  markSessionEnded(sessionId, reason);
+
+  await closeComputer(sessionId);
+  clearActiveTab(sessionId);
+  clearSessionPolicyEnforcer(sessionId);
+  if (isLocalSessionId(sessionId)) {
+    await releaseLocalSession(sessionId);
+  } else {
+    await releaseBrowserbaseSession(sessionId);
+  }
+}
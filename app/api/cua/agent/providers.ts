@@ -0,0 +1,207 @@
+import { readFileSync, writeFileSync, existsSync } from "fs";
+import { RequestOptions, Response as ModelResponse } from "./types";
+
+/**
+ * A model provider turns a Responses API request into a response. The agent only
+ * talks to models through this interface, so the backing service can be swapped by
+ * configuration. Aborting `signal` cancels the request.
+ */
+export interface ModelProvider {
+  createResponse(
+    options: RequestOptions,
+    signal?: AbortSignal
+  ): Promise<ModelResponse>;
+}
+
+export const DEFAULT_MODEL = "computer-use-preview";
+
+/**
+ * The computer-use model to request, from `CUA_MODEL`.
+ */
+export function getModelName(): string {
+  return process.env.CUA_MODEL || DEFAULT_MODEL;
+}
+
+/**
+ * Talks to the OpenAI Responses API, or to any server that implements the same
+ * `/responses` endpoint (a proxy, another vendor, or a local mock server).
+ */
+export class OpenAIProvider implements ModelProvider {
+  private baseUrl: string;
+  private apiKey: string | undefined;
+  private organization: string | undefined;
+
+  constructor(
+    baseUrl: string = "https://api.openai.com/v1",
+    apiKey: string | undefined = process.env.OPENAI_API_KEY,
+    organization: string | undefined = process.env.OPENAI_ORG
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey;
+    this.organization = organization;
+  }
+
+  async createResponse(
+    options: RequestOptions,
+    signal?: AbortSignal
+  ): Promise<ModelResponse> {
+    const url = `${this.baseUrl}/responses`;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Openai-beta': 'responses=v1',
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    if (this.organization) {
+      headers['OpenAI-Organization'] = this.organization;
+    }
+
+    // Function to handle fetch with retry logic
+    const fetchWithRetry = async (
+      url: string,
+      options: RequestInit,
+      retries = 3,
+      backoff = 300
+    ): Promise<ModelResponse> => {
+      try {
+        const response = await fetch(url, options);
+
+        // If response is not ok and we have retries left
+        if (!response.ok) {
+          if (response.status >= 500 && retries > 0) {
+            // Wait for backoff duration and then retry
+            await new Promise(resolve => setTimeout(resolve, backoff));
+            return fetchWithRetry(url, options, retries - 1, backoff * 2);
+          }
+
+          // If retries exhausted or status code is not 5xx, throw error with response details
+          const errorData = await response.json().catch(() => ({ message: "Failed to parse error response" }));
+          throw new Error(`Request failed with status ${response.status}: ${JSON.stringify(errorData)}`);
+        }
+
+        return response.json();
+      } catch (error) {
+        // Never retry a request that was cancelled
+        if (retries > 0 && !signal?.aborted) {
+          // Wait for backoff duration and then retry
+          await new Promise(resolve => setTimeout(resolve, backoff));
+          return fetchWithRetry(url, options, retries - 1, backoff * 2);
+        }
+        throw error;
+      }
+    };
+
+    try {
+      return await fetchWithRetry(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(options),
+        signal,
+      });
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+}
+
+/**
+ * One recorded model round-trip. Only the response chain is stored; request inputs
+ * (which include screenshots) are left out to keep fixtures small.
+ */
+export type FixtureEntry = {
+  previous_response_id: string | null;
+  response: ModelResponse;
+};
+
+/**
+ * Replays responses from a fixture file recorded by `RecordingProvider`.
+ *
+ * Responses are matched on `previous_response_id` rather than call order, because
+ * every step route builds a fresh agent and provider; the chain of response IDs is
+ * the only state that survives between requests.
+ */
+export class ReplayProvider implements ModelProvider {
+  private entries: FixtureEntry[];
+
+  constructor(fixturePath: string) {
+    this.entries = JSON.parse(readFileSync(fixturePath, "utf-8"));
+  }
+
+  async createResponse(
+    options: RequestOptions,
+    signal?: AbortSignal
+  ): Promise<ModelResponse> {
+    signal?.throwIfAborted();
+    const previousResponseId = options.previous_response_id ?? null;
+    const entry = this.entries.find(
+      (entry) => entry.previous_response_id === previousResponseId
+    );
+    if (!entry) {
+      throw new Error(
+        `No recorded response follows ${previousResponseId ?? "the first request"}`
+      );
+    }
+    return entry.response;
+  }
+}
+
+/**
+ * Wraps another provider and appends every response to a fixture file that
+ * `ReplayProvider` can play back later.
+ */
+export class RecordingProvider implements ModelProvider {
+  private inner: ModelProvider;
+  private fixturePath: string;
+
+  constructor(inner: ModelProvider, fixturePath: string) {
+    this.inner = inner;
+    this.fixturePath = fixturePath;
+  }
+
+  async createResponse(
+    options: RequestOptions,
+    signal?: AbortSignal
+  ): Promise<ModelResponse> {
+    const response = await this.inner.createResponse(options, signal);
+    const entries: FixtureEntry[] = existsSync(this.fixturePath)
+      ? JSON.parse(readFileSync(this.fixturePath, "utf-8"))
+      : [];
+    entries.push({
+      previous_response_id: options.previous_response_id ?? null,
+      response,
+    });
+    writeFileSync(this.fixturePath, JSON.stringify(entries, null, 2));
+    return response;
+  }
+}
+
+/**
+ * Build the provider selected by configuration:
+ *
+ * - `CUA_PROVIDER=openai` (default) uses `OPENAI_BASE_URL` and `OPENAI_API_KEY`.
+ * - `CUA_PROVIDER=replay` plays back the fixture at `CUA_FIXTURE_PATH`.
+ * - With `CUA_RECORD_FIXTURE` set, OpenAI responses are also recorded to that file.
+ */
+export function createProvider(): ModelProvider {
+  const providerName = process.env.CUA_PROVIDER || "openai";
+
+  switch (providerName) {
+    case "openai": {
+      const provider = new OpenAIProvider(
+        process.env.OPENAI_BASE_URL || undefined
+      );
+      return process.env.CUA_RECORD_FIXTURE
+        ? new RecordingProvider(provider, process.env.CUA_RECORD_FIXTURE)
+        : provider;
+    }
+    case "replay":
+      if (!process.env.CUA_FIXTURE_PATH) {
+        throw new Error("CUA_FIXTURE_PATH must be set when CUA_PROVIDER=replay");
+      }
+      return new ReplayProvider(process.env.CUA_FIXTURE_PATH);
+    default:
+      throw new Error(`Unknown model provider "${providerName}"`);
+  }
+}
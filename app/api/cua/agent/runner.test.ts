@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { acquireComputer, releaseComputer } from "./pool";
+import { createProvider } from "./providers";
+import { Run } from "./runner";
+import {
+  assistantMessage,
+  computerCall,
+  FakeComputer,
+  ScriptedProvider,
+} from "./testing";
+import type { ComputerToolCall, Item } from "./types";
+
+vi.mock("./pool", () => ({
+  acquireComputer: vi.fn(),
+  releaseComputer: vi.fn(),
+}));
+vi.mock("./providers", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./providers")>()),
+  createProvider: vi.fn(),
+}));
+vi.mock("./store", () => ({
+  getRunStore: () => ({
+    appendEntry: async () => {},
+    saveRun: async () => {},
+  }),
+}));
+
+function startRun(outputs: Item[][], maxSteps = 10) {
+  const provider = new ScriptedProvider(outputs);
+  vi.mocked(createProvider).mockReturnValue(provider);
+  const run = new Run({ sessionId: "session-1", userInput: "Wait a bit", maxSteps });
+  return { run, provider };
+}
+
+describe("Run.sendInput", () => {
+  beforeEach(() => {
+    vi.mocked(acquireComputer).mockResolvedValue(new FakeComputer());
+  });
+
+  it("sends the outputs of the last step before the follow-up after max_steps", async () => {
+    const { run, provider } = startRun(
+      [
+        [computerCall("call_1", { type: "wait" })],
+        [assistantMessage("Done waiting.")],
+      ],
+      1
+    );
+    await run.done;
+    expect(run.status).toBe("max_steps");
+    expect(run.canSendInput()).toBe(true);
+
+    run.sendInput("Keep going");
+    await run.done;
+
+    expect(run.status).toBe("completed");
+    expect(run.finalMessage).toBe("Done waiting.");
+    expect(provider.requests[1]).toMatchObject({
+      previous_response_id: "resp_1",
+      input: [
+        { type: "computer_call_output", call_id: "call_1" },
+        { role: "user", content: "Keep going" },
+      ],
+    });
+  });
+
+  it("refuses a follow-up when the run stopped in the middle of a step", async () => {
+    const call = computerCall("call_1", { type: "wait" }) as ComputerToolCall;
+    call.pending_safety_checks = [
+      { id: "check_1", code: "malicious_instructions", message: "Careful" },
+    ];
+    const { run } = startRun([[call]]);
+
+    await vi.waitUntil(() => run.status === "awaiting_approval");
+    await run.resolveSafetyCheck("check_1", false);
+    await run.done;
+
+    expect(run.status).toBe("rejected");
+    expect(run.canSendInput()).toBe(false);
+    expect(() => run.sendInput("Try again")).toThrow("cannot continue");
+  });
+});
+
+describe("Run.pause", () => {
+  beforeEach(() => {
+    vi.mocked(releaseComputer).mockClear();
+  });
+
+  it("keeps the browser and the step budget across a pause", async () => {
+    const computer = new FakeComputer();
+    vi.mocked(acquireComputer).mockResolvedValue(computer);
+    const { run, provider } = startRun([[computerCall("call_1", { type: "wait" })]], 2);
+    computer.wait = async () => {
+      run.pause();
+    };
+
+    await run.done;
+    expect(run.status).toBe("paused");
+    expect(releaseComputer).not.toHaveBeenCalled();
+
+    computer.wait = async () => {};
+    expect(run.resume()).toBe(true);
+    await run.done;
+
+    expect(run.status).toBe("max_steps");
+    expect(provider.requests).toHaveLength(2);
+    expect(releaseComputer).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,620 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { Agent, isInputItem, SafetyCheckRejectedError } from "./agent";
+import { BasePlaywrightComputer } from "./base_playwright";
+import { acquireComputer, releaseComputer } from "./pool";
+import { PolicyEnforcer } from "./policy";
+import { getModelName } from "./providers";
+import { OutputSchema, parseStructuredResult } from "./schema";
+import { SettleStrategy } from "./settle";
+import { getRunStore, RunSummary, TranscriptEntry } from "./store";
+import { InputItem, Item, OutputText, SafetyCheck } from "./types";
+
+export type RunStatus =
+  | "running"
+  | "awaiting_approval"
+  | "paused"
+  | "taken_over"
+  | "completed"
+  | "rejected"
+  | "cancelled"
+  | "failed"
+  | "max_steps"
+  | "timeout";
+
+type RunEventData =
+  | { type: "item"; item: Item; responseId: string }
+  | { type: "output"; output: InputItem }
+  | { type: "status"; status: RunStatus; error?: string }
+  | { type: "safety_check"; check: SafetyCheck }
+  | { type: "result"; result: unknown };
+
+export type RunEvent = RunEventData & { seq: number; timestamp: number };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+export interface RunOptions {
+  sessionId: string;
+  userInput: string;
+  /** Maximum model turns per user turn before the run stops with `max_steps`. */
+  maxSteps?: number;
+  /** Wall-clock budget in milliseconds per user turn, checked before each model turn. */
+  maxDurationMs?: number;
+  /** JSON schema the final answer must match. The parsed answer becomes `result`. */
+  outputSchema?: OutputSchema;
+  /** What to wait for after each action before its screenshot. */
+  settle?: SettleStrategy;
+}
+
+export const DEFAULT_MAX_STEPS = Number(process.env.CUA_RUN_MAX_STEPS) || 50;
+export const DEFAULT_MAX_DURATION_MS =
+  Number(process.env.CUA_RUN_MAX_DURATION_MS) || 10 * 60 * 1000;
+
+// How often the model may retry a final answer that doesn't match the output schema
+const MAX_RESULT_RETRIES = 2;
+
+/**
+ * Whether a run still has a loop in progress, including one paused on a safety check.
+ */
+export function isRunActive(status: RunStatus): boolean {
+  return status === "running" || status === "awaiting_approval";
+}
+
+/**
+ * Whether a run is stopped part way and can carry on: paused, or taken over by the user.
+ */
+export function isRunPaused(status: RunStatus): boolean {
+  return status === "paused" || status === "taken_over";
+}
+
+/**
+ * A task driven to completion on the server. The run loop alternates
+ * `Agent.getAction` and `Agent.takeAction` until the model answers with a message,
+ * or a budget runs out. Progress is recorded as an ordered list of events that
+ * clients can poll or subscribe to.
+ */
+export class Run {
+  readonly id: string = randomUUID();
+  readonly sessionId: string;
+  readonly userInput: string;
+  readonly maxSteps: number;
+  readonly maxDurationMs: number;
+  readonly outputSchema: OutputSchema | null;
+  readonly settle: SettleStrategy | null;
+  readonly startedAt: number = Date.now();
+
+  status: RunStatus = "running";
+  steps: number = 0;
+  finishedAt: number | null = null;
+  responseId: string | undefined = undefined;
+  finalMessage: string | null = null;
+  result: unknown = null;
+  error: string | null = null;
+  events: RunEvent[] = [];
+  /** The safety check the run is paused on, if any. */
+  pendingSafetyCheck: SafetyCheck | null = null;
+  /**
+   * The status asked for by `pause()` or `takeOver()`, until the run loop reaches
+   * the end of its current step.
+   */
+  pauseRequested: "paused" | "taken_over" | null = null;
+
+  /** Settles when the current run loop exits, whatever the outcome. */
+  done: Promise<void>;
+
+  private emitter = new EventEmitter();
+  private agent: Agent | null = null;
+  private computer: BasePlaywrightComputer | null = null;
+  // Shared by every agent of the run, so the action cap covers the whole run
+  private policy = new PolicyEnforcer();
+  private resolveApproval: ((approved: boolean) => void) | null = null;
+  private abortController = new AbortController();
+  // The input the loop was about to send when the run paused, sent on resume
+  private pausedAt: InputItem[] | null = null;
+  // The input the loop was about to send when the run stopped, such as the outputs
+  // of the last calls after `max_steps`. A follow-up message is sent after it, since
+  // the model rejects a message that leaves its calls without outputs. Null when the
+  // calls of the last response got no outputs, because the run stopped part way.
+  private unsentInput: InputItem[] | null = [];
+  // Steps taken and time spent running in the current user turn. Kept on the run,
+  // so pausing and resuming doesn't reset the budgets.
+  private turnSteps = 0;
+  private turnRunningMs = 0;
+  // Whether the run still holds its pooled connection while paused, so the pool and
+  // the session reaper keep the browser until the run resumes or is cancelled
+  private holdsComputer = false;
+
+  constructor(options: RunOptions) {
+    this.sessionId = options.sessionId;
+    this.userInput = options.userInput;
+    this.maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+    this.maxDurationMs = options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS;
+    this.outputSchema = options.outputSchema ?? null;
+    this.settle = options.settle ?? null;
+
+    this.done = this.loop(null);
+  }
+
+  /**
+   * Listen for new events. Returns a function that removes the listener.
+   */
+  subscribe(listener: (event: RunEvent) => void): () => void {
+    this.emitter.on("event", listener);
+    return () => {
+      this.emitter.off("event", listener);
+    };
+  }
+
+  eventsAfter(seq: number): RunEvent[] {
+    return this.events.filter((event) => event.seq > seq);
+  }
+
+  toJSON(): RunSummary {
+    return {
+      id: this.id,
+      sessionId: this.sessionId,
+      userInput: this.userInput,
+      status: this.status,
+      steps: this.steps,
+      maxSteps: this.maxSteps,
+      maxDurationMs: this.maxDurationMs,
+      startedAt: this.startedAt,
+      finishedAt: this.finishedAt,
+      responseId: this.responseId ?? null,
+      finalMessage: this.finalMessage,
+      outputSchema: this.outputSchema,
+      result: this.result,
+      error: this.error,
+    };
+  }
+
+  /**
+   * Answer the safety check the run is paused on. Approving resumes the run;
+   * rejecting stops it with `rejected`. Returns false if no such check is pending.
+   */
+  async resolveSafetyCheck(checkId: string, approved: boolean): Promise<boolean> {
+    const check = this.pendingSafetyCheck;
+    const resolve = this.resolveApproval;
+    if (!check || !resolve || check.id !== checkId) {
+      return false;
+    }
+
+    this.pendingSafetyCheck = null;
+    this.resolveApproval = null;
+    await this.record({ type: "safety_check", check, approved });
+    if (approved) {
+      this.status = "running";
+      this.emit({ type: "status", status: "running" });
+    }
+    resolve(approved);
+    return true;
+  }
+
+  /**
+   * Stop the run for good. In-flight model requests and browser actions are
+   * aborted, and the run ends with `cancelled`. Returns false if it already stopped.
+   */
+  async cancel(): Promise<boolean> {
+    if (isRunPaused(this.status)) {
+      this.pausedAt = null;
+      this.releasePausedComputer();
+      await this.finish("cancelled", "Cancelled by the user");
+      return true;
+    }
+    if (!isRunActive(this.status)) {
+      return false;
+    }
+    this.abortController.abort(new Error("Cancelled by the user"));
+    await this.done;
+    return true;
+  }
+
+  /**
+   * Pause the run once its current step is done, so no model call or action is cut
+   * short and the response chain stays intact. The browser session is kept until
+   * `resume()`. Returns false if the run isn't running.
+   */
+  pause(): boolean {
+    if (!isRunActive(this.status)) {
+      return false;
+    }
+    this.pauseRequested = "paused";
+    return true;
+  }
+
+  /**
+   * Hand the browser to the user: the run pauses like with `pause()`, but stops
+   * with `taken_over` and only continues on `handBack()`. A paused run is taken
+   * over right away. Returns false if the run is neither running nor paused.
+   */
+  async takeOver(): Promise<boolean> {
+    if (this.status === "paused") {
+      this.status = "taken_over";
+      this.emit({ type: "status", status: "taken_over" });
+      await this.record({ type: "status", status: "taken_over" });
+      return true;
+    }
+    if (!isRunActive(this.status)) {
+      return false;
+    }
+    this.pauseRequested = "taken_over";
+    return true;
+  }
+
+  /**
+   * Continue a paused run from where it stopped. Returns false if it isn't paused.
+   */
+  resume(): boolean {
+    if (this.status !== "paused" || !this.pausedAt) {
+      // A pause that hasn't taken effect yet is simply called off.
+      if (this.pauseRequested === "paused" && isRunActive(this.status)) {
+        this.pauseRequested = null;
+        return true;
+      }
+      return false;
+    }
+    this.continueFrom(this.pausedAt, null);
+    return true;
+  }
+
+  /**
+   * Give control back to the model after a takeover. Before its next turn the model
+   * gets a fresh screenshot of the page as the user left it, and `note` if given.
+   * Returns false if the run isn't taken over.
+   */
+  handBack(note?: string): boolean {
+    if (this.status !== "taken_over" || !this.pausedAt) {
+      if (this.pauseRequested === "taken_over" && isRunActive(this.status)) {
+        this.pauseRequested = null;
+        return true;
+      }
+      return false;
+    }
+    this.continueFrom(this.pausedAt, { note });
+    return true;
+  }
+
+  private continueFrom(
+    input: InputItem[],
+    handBack: { note?: string } | null
+  ) {
+    this.pausedAt = null;
+    this.status = "running";
+    this.emit({ type: "status", status: "running" });
+    this.done = this.loop(input, handBack);
+  }
+
+  private releasePausedComputer() {
+    if (this.holdsComputer) {
+      this.holdsComputer = false;
+      releaseComputer(this.sessionId);
+    }
+  }
+
+  private emit(data: RunEventData) {
+    const event = {
+      ...data,
+      seq: this.events.length + 1,
+      timestamp: Date.now(),
+    } as RunEvent;
+    this.events.push(event);
+    this.emitter.emit("event", event);
+  }
+
+  private async finish(status: RunStatus, error?: string) {
+    this.status = status;
+    this.pauseRequested = null;
+    this.error = error ?? null;
+    this.finishedAt = Date.now();
+    this.emit({ type: "status", status, ...(error ? { error } : {}) });
+    await this.record({ type: "status", status, ...(error ? { error } : {}) });
+  }
+
+  /**
+   * Persist a transcript entry and the latest summary. Storage errors are logged
+   * rather than failing the run.
+   */
+  private async record(entry: DistributiveOmit<TranscriptEntry, "timestamp">) {
+    try {
+      const store = getRunStore();
+      await store.appendEntry(this.id, {
+        ...entry,
+        timestamp: Date.now(),
+      } as TranscriptEntry);
+      await store.saveRun(this.toJSON());
+    } catch (error) {
+      console.error(`Failed to persist run ${this.id}:`, error);
+    }
+  }
+
+  /**
+   * Whether the run can take a follow-up message: it has finished, and did not stop
+   * in the middle of a step, which leaves the model's calls without outputs.
+   */
+  canSendInput(): boolean {
+    return (
+      !isRunActive(this.status) &&
+      !isRunPaused(this.status) &&
+      this.status !== "cancelled" &&
+      this.unsentInput !== null
+    );
+  }
+
+  /**
+   * Continue a finished run with a follow-up message from the user, keeping the
+   * browser session and response chain. Budgets apply to each user turn.
+   */
+  sendInput(userInput: string) {
+    if (isRunActive(this.status)) {
+      throw new Error("Run is still in progress");
+    }
+    if (isRunPaused(this.status) || this.status === "cancelled") {
+      throw new Error(`Run is ${this.status}`);
+    }
+    if (!this.unsentInput) {
+      throw new Error("Run stopped in the middle of a step and cannot continue");
+    }
+    const input: InputItem[] = [
+      ...this.unsentInput,
+      { role: "user", content: userInput },
+    ];
+    this.status = "running";
+    this.result = null;
+    this.error = null;
+    this.finishedAt = null;
+    this.turnSteps = 0;
+    this.turnRunningMs = 0;
+    this.emit({ type: "status", status: "running" });
+    this.done = this.loop(input);
+  }
+
+  /**
+   * Build the agent around a pooled connection. The agent is kept between user
+   * turns unless its connection was closed in the meantime.
+   */
+  private getAgent(computer: BasePlaywrightComputer): Agent {
+    if (!this.agent || this.computer !== computer) {
+      this.computer = computer;
+      this.agent = new Agent(
+        getModelName(),
+        computer,
+        (_message, check) => this.awaitApproval(check),
+        {
+          policyEnforcer: this.policy,
+          outputSchema: this.outputSchema ?? undefined,
+          settle: this.settle ?? undefined,
+        }
+      );
+    }
+    return this.agent;
+  }
+
+  /**
+   * Pause the run until the user approves or rejects a pending safety check.
+   */
+  private async awaitApproval(check: SafetyCheck): Promise<boolean> {
+    const signal = this.abortController.signal;
+    const approval = new Promise<boolean>((resolve, reject) => {
+      this.resolveApproval = resolve;
+      // Cancelling the run while it waits ends the wait too
+      signal.addEventListener("abort", () => reject(signal.reason), {
+        once: true,
+      });
+    });
+    this.pendingSafetyCheck = check;
+    this.status = "awaiting_approval";
+    this.emit({ type: "status", status: "awaiting_approval" });
+    this.emit({ type: "safety_check", check });
+    await this.record({ type: "status", status: "awaiting_approval" });
+    return approval;
+  }
+
+  private async loop(
+    input: InputItem[] | null,
+    handBack: { note?: string } | null = null
+  ): Promise<void> {
+    const loopStartedAt = Date.now();
+    const runningMs = () => this.turnRunningMs + Date.now() - loopStartedAt;
+    let resultRetries = 0;
+    const signal = this.abortController.signal;
+
+    await this.record({ type: "status", status: "running" });
+
+    let acquired = false;
+    try {
+      const agent = this.getAgent(await acquireComputer(this.sessionId));
+      acquired = true;
+      // This loop's own hold replaces the one kept while paused
+      this.releasePausedComputer();
+
+      // A new task starts on the page its request names
+      if (!input) {
+        input = await agent.initialInput(this.userInput, signal);
+      }
+      // The user may have changed the page, so the screenshots waiting to be sent are stale
+      if (handBack) {
+        input = await agent.handBackInput(input, handBack.note, signal);
+      }
+
+      while (true) {
+        this.unsentInput = input;
+        if (this.pauseRequested) {
+          const status = this.pauseRequested;
+          this.pauseRequested = null;
+          this.pausedAt = input;
+          this.turnRunningMs = runningMs();
+          this.status = status;
+          this.emit({ type: "status", status });
+          await this.record({ type: "status", status });
+          return;
+        }
+        if (this.turnSteps >= this.maxSteps) {
+          await this.finish("max_steps", `Stopped after ${this.maxSteps} steps`);
+          return;
+        }
+        if (runningMs() >= this.maxDurationMs) {
+          await this.finish("timeout", `Stopped after ${this.maxDurationMs}ms`);
+          return;
+        }
+
+        await this.record({
+          type: "request",
+          input,
+          previous_response_id: this.responseId ?? null,
+        });
+        const result = await agent.getAction(input, this.responseId, signal);
+        this.steps++;
+        this.turnSteps++;
+        this.responseId = result.responseId;
+        this.unsentInput = [];
+        for (const item of result.output) {
+          this.emit({ type: "item", item, responseId: result.responseId });
+        }
+        await this.record({
+          type: "response",
+          responseId: result.responseId,
+          output: result.output,
+        });
+
+        const hasCalls = result.output.some(
+          (item) => item.type === "computer_call" || item.type === "function_call"
+        );
+
+        if (!hasCalls) {
+          // If the generated output is only reasoning, ask for a real action.
+          if (result.output.every((item) => item.type === "reasoning")) {
+            input = [{ role: "user", content: "Please continue with the task." }];
+            continue;
+          }
+
+          this.finalMessage = getMessageText(result.output);
+          if (this.outputSchema) {
+            const parsed = parseStructuredResult(
+              this.finalMessage ?? "",
+              this.outputSchema
+            );
+            if (parsed.errors.length > 0) {
+              if (resultRetries >= MAX_RESULT_RETRIES) {
+                await this.finish(
+                  "failed",
+                  `The answer does not match the output schema: ${parsed.errors.join("; ")}`
+                );
+                return;
+              }
+              resultRetries++;
+              input = [
+                {
+                  role: "developer",
+                  content: `Your answer does not match the "${this.outputSchema.name}" schema:\n${parsed.errors.join("\n")}\nReply again with only the corrected JSON object.`,
+                },
+              ];
+              continue;
+            }
+            this.result = parsed.result;
+            this.emit({ type: "result", result: parsed.result });
+          }
+          await this.finish("completed");
+          return;
+        }
+
+        for (const item of result.output) {
+          if (item.type === "computer_call") {
+            await this.record({
+              type: "computer_action",
+              call_id: item.call_id,
+              action: item.action,
+            });
+          } else if (item.type === "function_call") {
+            await this.record({
+              type: "function_action",
+              call_id: item.call_id,
+              name: item.name,
+              arguments: item.arguments,
+            });
+          }
+        }
+
+        this.unsentInput = null;
+        const outputs = await agent.takeAction(result.output, signal);
+        input = [];
+        for (const output of outputs) {
+          if (!isInputItem(output)) continue;
+          this.emit({ type: "output", output });
+          await this.record({ type: "output", output });
+          input.push(output);
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        this.pendingSafetyCheck = null;
+        this.resolveApproval = null;
+        await this.finish("cancelled", "Cancelled by the user");
+        return;
+      }
+      if (error instanceof SafetyCheckRejectedError) {
+        await this.finish("rejected", error.message);
+        return;
+      }
+      console.error(`Error in run ${this.id}:`, error);
+      await this.finish(
+        "failed",
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      if (acquired && isRunPaused(this.status)) {
+        this.holdsComputer = true;
+      } else {
+        if (acquired) releaseComputer(this.sessionId);
+        this.releasePausedComputer();
+      }
+    }
+  }
+}
+
+function getMessageText(output: Item[]): string | null {
+  const texts = output.flatMap((item) =>
+    item.type === "message"
+      ? item.content
+          .filter((content) => content.type === "output_text")
+          .map((content) => (content as OutputText).text)
+      : []
+  );
+  return texts.length > 0 ? texts.join("\n") : null;
+}
+
+// Keep runs on globalThis so they survive hot reloads in development.
+const globalForRuns = globalThis as unknown as { runs?: Map<string, Run> };
+const runs = globalForRuns.runs ?? new Map<string, Run>();
+globalForRuns.runs = runs;
+
+// How long a finished run stays in memory, where it can still take follow-up input
+export const RUN_RETENTION_MS =
+  Number(process.env.CUA_RUN_RETENTION_MS) || 30 * 60 * 1000;
+
+/**
+ * Drop finished runs from memory once they have been finished for longer than
+ * `RUN_RETENTION_MS`. Their events hold every screenshot, and the run store keeps
+ * the transcript anyway. Paused runs are kept.
+ */
+function evictFinishedRuns() {
+  const now = Date.now();
+  for (const [runId, run] of runs) {
+    if (run.finishedAt !== null && now - run.finishedAt > RUN_RETENTION_MS) {
+      runs.delete(runId);
+    }
+  }
+}
+
+export function startRun(options: RunOptions): Run {
+  evictFinishedRuns();
+  const run = new Run(options);
+  runs.set(run.id, run);
+  return run;
+}
+
+export function getRun(runId: string): Run | undefined {
+  evictFinishedRuns();
+  return runs.get(runId);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { OutputSchemaError, parseOutputSchema } from "./schema";
+
+const object = (properties: Record<string, unknown>) => ({
+  type: "object",
+  properties,
+});
+
+describe("parseOutputSchema", () => {
+  it("accepts a nested schema", () => {
+    const schema = object({
+      name: { type: "string", pattern: "^[A-Z]" },
+      tags: { type: "array", items: { type: "string", maxLength: 20 } },
+      price: { anyOf: [{ type: "number" }, { type: "null" }] },
+    });
+
+    expect(parseOutputSchema(schema)).toEqual({ name: "result", schema });
+  });
+
+  it.each([
+    [
+      object({ name: { type: "text" } }),
+      "$.properties.name: type must be one of",
+    ],
+    [
+      object({ tags: { type: "array", items: "string" } }),
+      "$.properties.tags.items: must be an object",
+    ],
+    [{ type: "object", properties: [] }, "$: properties must be an object"],
+    [
+      object({ code: { type: "string", pattern: "([a-z]" } }),
+      "$.properties.code: pattern /([a-z]/ is not a valid regular expression",
+    ],
+    [
+      object({ id: { anyOf: [{ type: "string" }, { pattern: 1 }] } }),
+      "$.properties.id.anyOf[1]: pattern must be a string",
+    ],
+    [
+      object({ n: { type: "integer", minimum: "0" } }),
+      "$.properties.n: minimum must be a number",
+    ],
+    [
+      { type: "object", required: "name" },
+      "$: required must be an array of strings",
+    ],
+  ])("rejects %j", (schema, message) => {
+    expect(() => parseOutputSchema(schema)).toThrow(OutputSchemaError);
+    expect(() => parseOutputSchema(schema)).toThrow(message);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * A JSON schema the final answer of a task must match. It is sent to the model as
+ * the `json_schema` text format, so the schema must describe an object.
+ */
+export type OutputSchema = {
+  name: string;
+  schema: JsonSchema;
+  description?: string;
+  strict?: boolean;
+};
+
+/**
+ * The subset of JSON Schema supported by structured outputs, which is also what
+ * results are validated against.
+ */
+export type JsonSchema = {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  description?: string;
+};
+
+type JsonType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
+export class OutputSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutputSchemaError";
+  }
+}
+
+const SCHEMA_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const JSON_TYPES: JsonType[] = [
+  "object",
+  "array",
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "null",
+];
+
+const NUMBER_KEYWORDS = [
+  "minItems",
+  "maxItems",
+  "minimum",
+  "maximum",
+  "minLength",
+  "maxLength",
+] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the keywords of a schema and every schema nested in it, so that a
+ * malformed schema is rejected up front instead of failing once the model
+ * answers. `path` names the schema within the output schema.
+ */
+function checkSchema(schema: unknown, path: string): void {
+  const fail = (message: string): never => {
+    throw new OutputSchemaError(`outputSchema ${path}: ${message}`);
+  };
+  if (!isObject(schema)) fail("must be an object");
+  const raw = schema as Record<string, unknown>;
+
+  if (raw.type !== undefined) {
+    const types = Array.isArray(raw.type) ? raw.type : [raw.type];
+    const known = types.every((type) => JSON_TYPES.includes(type as JsonType));
+    if (types.length === 0 || !known) {
+      fail(`type must be one of ${JSON_TYPES.join(", ")}`);
+    }
+  }
+  if (raw.properties !== undefined) {
+    if (!isObject(raw.properties)) fail("properties must be an object");
+    for (const [key, property] of Object.entries(
+      raw.properties as Record<string, unknown>
+    )) {
+      checkSchema(property, `${path}.properties.${key}`);
+    }
+  }
+  if (
+    raw.required !== undefined &&
+    !(Array.isArray(raw.required) && raw.required.every((key) => typeof key === "string"))
+  ) {
+    fail("required must be an array of strings");
+  }
+  if (
+    raw.additionalProperties !== undefined &&
+    typeof raw.additionalProperties !== "boolean"
+  ) {
+    checkSchema(raw.additionalProperties, `${path}.additionalProperties`);
+  }
+  if (raw.items !== undefined) checkSchema(raw.items, `${path}.items`);
+  if (raw.anyOf !== undefined) {
+    if (!Array.isArray(raw.anyOf) || raw.anyOf.length === 0) {
+      fail("anyOf must be a non-empty array");
+    }
+    (raw.anyOf as unknown[]).forEach((option, index) =>
+      checkSchema(option, `${path}.anyOf[${index}]`)
+    );
+  }
+  if (raw.enum !== undefined && !Array.isArray(raw.enum)) fail("enum must be an array");
+  for (const keyword of NUMBER_KEYWORDS) {
+    if (raw[keyword] !== undefined && typeof raw[keyword] !== "number") {
+      fail(`${keyword} must be a number`);
+    }
+  }
+  if (raw.pattern !== undefined) {
+    if (typeof raw.pattern !== "string") fail("pattern must be a string");
+    try {
+      new RegExp(raw.pattern as string);
+    } catch {
+      fail(`pattern /${raw.pattern}/ is not a valid regular expression`);
+    }
+  }
+}
+
+/**
+ * Validate an output schema from a request. A bare JSON schema is accepted too,
+ * and named `result`.
+ */
+export function parseOutputSchema(input: unknown): OutputSchema {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new OutputSchemaError("outputSchema must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+  const wrapped = typeof raw.schema === "object" && raw.schema !== null;
+  const schema = (wrapped ? raw.schema : raw) as JsonSchema;
+  const name = wrapped && raw.name !== undefined ? raw.name : "result";
+
+  if (typeof name !== "string" || !SCHEMA_NAME_PATTERN.test(name)) {
+    throw new OutputSchemaError(
+      "outputSchema name must be 1-64 letters, digits, underscores or dashes"
+    );
+  }
+  if (schema.type !== "object") {
+    throw new OutputSchemaError('outputSchema must have type "object"');
+  }
+  if (wrapped && raw.description !== undefined && typeof raw.description !== "string") {
+    throw new OutputSchemaError("outputSchema description must be a string");
+  }
+  checkSchema(schema, "$");
+
+  return {
+    name,
+    schema,
+    ...(wrapped && raw.description !== undefined
+      ? { description: raw.description as string }
+      : {}),
+    ...(wrapped && typeof raw.strict === "boolean" ? { strict: raw.strict } : {}),
+  };
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Check a value against a schema. Returns one message per problem, each prefixed
+ * with the JSON path of the offending value; an empty list means the value is valid.
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = "$"
+): string[] {
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(
+      (option) => validateAgainstSchema(value, option, path).length === 0
+    );
+    return matches ? [] : [`${path}: does not match any of the allowed schemas`];
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (
+    schema.const !== undefined &&
+    JSON.stringify(value) !== JSON.stringify(schema.const)
+  ) {
+    return [`${path}: must be ${JSON.stringify(schema.const)}`];
+  }
+  if (
+    schema.enum &&
+    !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))
+  ) {
+    return [
+      `${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+    ];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(
+          ...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)
+        );
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (Object.hasOwn(properties, key)) {
+        errors.push(
+          ...validateAgainstSchema(propertyValue, properties[key], `${path}.${key}`)
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateAgainstSchema(
+            propertyValue,
+            schema.additionalProperties,
+            `${path}.${key}`
+          )
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the model's final answer as JSON and validate it against the schema.
+ */
+export function parseStructuredResult(
+  text: string,
+  outputSchema: OutputSchema
+): { result: unknown; errors: string[] } {
+  let result: unknown;
+  try {
+    result = JSON.parse(text);
+  } catch {
+    return { result: null, errors: ["$: the answer is not valid JSON"] };
+  }
+  return { result, errors: validateAgainstSchema(result, outputSchema.schema) };
+}
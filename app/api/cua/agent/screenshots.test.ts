@@ -0,0 +1,52 @@
+import { existsSync } from "fs";
+import { Browser, chromium, Page } from "playwright";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { readFrameState } from "./screenshots";
+
+// The browser the local backend uses; the tests are skipped when it isn't installed
+const executablePath =
+  process.env.LOCAL_BROWSER_EXECUTABLE_PATH || chromium.executablePath();
+const noBrowser = !existsSync(executablePath);
+
+describe("readFrameState", () => {
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    if (noBrowser) return;
+    browser = await chromium.launch({ executablePath });
+    page = await browser.newPage();
+  }, 30000);
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  beforeEach(async () => {
+    if (noBrowser) return;
+    // A new document each time; setContent would keep the old window
+    await page.goto("data:text/html,<p>Some text to select</p><input>");
+    // The first read installs the observers
+    await readFrameState(page);
+  });
+
+  it.skipIf(noBrowser)("keeps the key while nothing happens", async () => {
+    const { key } = await readFrameState(page);
+    expect((await readFrameState(page)).key).toBe(key);
+  });
+
+  it.skipIf(noBrowser)("changes the key on a key press", async () => {
+    const { key } = await readFrameState(page);
+    await page.keyboard.press("Shift");
+    expect((await readFrameState(page)).key).not.toBe(key);
+  });
+
+  it.skipIf(noBrowser)("changes the key when the selection changes", async () => {
+    const { key } = await readFrameState(page);
+    await page.evaluate(() => {
+      getSelection()!.selectAllChildren(document.querySelector("p")!);
+    });
+    // selectionchange is dispatched as a task after the change
+    await page.evaluate(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    expect((await readFrameState(page)).key).not.toBe(key);
+  });
+});
@@ -0,0 +1,211 @@
+import type { CDPSession, Page } from "playwright";
+
+export type ScreenshotFormat = "png" | "jpeg" | "webp";
+
+/**
+ * How screenshots sent to the model are captured, from `CUA_SCREENSHOT_FORMAT`,
+ * `CUA_SCREENSHOT_QUALITY`, `CUA_SCREENSHOT_SCALE` and `CUA_SCREENSHOT_SKIP_UNCHANGED`.
+ *
+ * - `quality` (0-100) applies to `jpeg` and `webp` only.
+ * - `scale: "css"` captures one pixel per CSS pixel, so HiDPI screens don't send
+ *   images two or three times larger than the coordinates the model clicks in.
+ * - `skipUnchanged` reuses the previous frame after an action when nothing on the
+ *   page changed since it was taken.
+ */
+export interface ScreenshotOptions {
+  format: ScreenshotFormat;
+  quality: number;
+  scale: "css" | "device";
+  skipUnchanged: boolean;
+}
+
+/** A captured viewport, base64 encoded. */
+export type Screenshot = { data: string; mimeType: string };
+
+const FORMATS: ScreenshotFormat[] = ["png", "jpeg", "webp"];
+const DEFAULT_QUALITY = 80;
+
+export function getScreenshotOptions(): ScreenshotOptions {
+  const format = process.env.CUA_SCREENSHOT_FORMAT as ScreenshotFormat;
+  const quality = Number(process.env.CUA_SCREENSHOT_QUALITY);
+  return {
+    format: FORMATS.includes(format) ? format : "png",
+    quality:
+      Number.isInteger(quality) && quality >= 0 && quality <= 100
+        ? quality
+        : DEFAULT_QUALITY,
+    scale: process.env.CUA_SCREENSHOT_SCALE === "device" ? "device" : "css",
+    skipUnchanged: process.env.CUA_SCREENSHOT_SKIP_UNCHANGED !== "false",
+  };
+}
+
+export function screenshotDataUrl(screenshot: Screenshot): string {
+  return `data:${screenshot.mimeType};base64,${screenshot.data}`;
+}
+
+/**
+ * What a page looks like, as far as can be told without capturing it. `key` changes
+ * whenever something that may show on screen happens: a DOM mutation, scrolling,
+ * focus or pointer movement, a key press, input, a selection or caret change, a
+ * resource or web font loading, or a new document. It is null when the page can
+ * change on its own, through animations, playing video, canvases or iframes, whose
+ * content isn't observed.
+ */
+export type FrameState = {
+  key: string | null;
+  scrollX: number;
+  scrollY: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Read the frame state of a page. The observers behind `key` are installed on the
+ * first read in each document, which therefore never matches an earlier key.
+ */
+export async function readFrameState(page: Page): Promise<FrameState> {
+  const state = await page.evaluate(() => {
+    const win = window as typeof window & {
+      __cuaFrameState?: { id: string; changes: number };
+    };
+    if (!win.__cuaFrameState) {
+      const frameState = {
+        id: Math.random().toString(36).slice(2),
+        changes: 0,
+      };
+      const bump = () => {
+        frameState.changes++;
+      };
+      new MutationObserver(bump).observe(document, {
+        subtree: true,
+        childList: true,
+        attributes: true,
+        characterData: true,
+      });
+      // On the document, since the load events of images and other resources
+      // never reach the window; resize only fires on the window
+      window.addEventListener("resize", bump, true);
+      for (const type of [
+        "scroll",
+        "load",
+        "focusin",
+        "focusout",
+        "keydown",
+        "input",
+        "selectionchange",
+        "pointermove",
+        "pointerdown",
+        "pointerup",
+        "transitionstart",
+        "animationstart",
+      ]) {
+        document.addEventListener(type, bump, true);
+      }
+      // Web fonts and CSS background images show up without any of the events above
+      document.fonts.addEventListener("loadingdone", bump);
+      new PerformanceObserver(bump).observe({ type: "resource" });
+      win.__cuaFrameState = frameState;
+    }
+
+    const live =
+      document.getAnimations().some((animation) => animation.playState === "running") ||
+      Array.from(document.querySelectorAll("video")).some((video) => !video.paused) ||
+      document.querySelector("canvas, iframe") !== null;
+
+    return {
+      key: live ? null : `${win.__cuaFrameState.id}:${win.__cuaFrameState.changes}`,
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+      width: window.innerWidth,
+      height: window.innerHeight,
+    };
+  });
+  return { ...state, key: state.key && `${page.url()}#${state.key}` };
+}
+
+// Image pixels per CSS pixel of each page's screenshots
+const captureScales = new WeakMap<Page, number>();
+
+const PROBE_SIZE = 16;
+
+/**
+ * How many image pixels a screenshot has per CSS pixel. `devicePixelRatio` in the
+ * page doesn't always agree with what CDP captures, so a small corner of the
+ * viewport is captured to measure it.
+ */
+async function getCaptureScale(
+  page: Page,
+  cdpSession: CDPSession,
+  frameState: FrameState
+): Promise<number> {
+  let scale = captureScales.get(page);
+  if (scale === undefined) {
+    const { data } = await cdpSession.send("Page.captureScreenshot", {
+      format: "png",
+      fromSurface: true,
+      clip: {
+        x: frameState.scrollX,
+        y: frameState.scrollY,
+        width: PROBE_SIZE,
+        height: PROBE_SIZE,
+        scale: 1,
+      },
+    });
+    // The width is stored at byte 16 of the PNG header
+    scale = Buffer.from(data, "base64").readUInt32BE(16) / PROBE_SIZE;
+    captureScales.set(page, scale);
+  }
+  return scale;
+}
+
+/**
+ * Capture the viewport of `page` over CDP. At CSS scale on a HiDPI screen the
+ * capture is clipped to the viewport given by `frameState` and scaled down.
+ */
+export async function captureViewport(
+  page: Page,
+  cdpSession: CDPSession,
+  options: ScreenshotOptions,
+  frameState: FrameState | null
+): Promise<Screenshot> {
+  const captureScale =
+    options.scale === "css" && frameState
+      ? await getCaptureScale(page, cdpSession, frameState)
+      : 1;
+
+  const { data } = await cdpSession.send("Page.captureScreenshot", {
+    format: options.format,
+    ...(options.format !== "png" ? { quality: options.quality } : {}),
+    fromSurface: true,
+    // Clip coordinates are CSS pixels from the top of the document
+    ...(frameState && captureScale !== 1
+      ? {
+          clip: {
+            x: frameState.scrollX,
+            y: frameState.scrollY,
+            width: frameState.width,
+            height: frameState.height,
+            scale: 1 / captureScale,
+          },
+        }
+      : {}),
+  });
+  return { data, mimeType: `image/${options.format}` };
+}
+
+/**
+ * Capture the viewport through Playwright, for when CDP is unavailable. Playwright
+ * can't encode WebP, so WebP falls back to PNG.
+ */
+export async function captureViewportFallback(
+  page: Page,
+  options: ScreenshotOptions
+): Promise<Screenshot> {
+  const type = options.format === "jpeg" ? "jpeg" : "png";
+  const buffer = await page.screenshot({
+    type,
+    ...(type === "jpeg" ? { quality: options.quality } : {}),
+    scale: options.scale,
+  });
+  return { data: buffer.toString("base64"), mimeType: `image/${type}` };
+}
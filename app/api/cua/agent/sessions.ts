@@ -0,0 +1,114 @@
+import type { BrowserBackend } from "./computer";
+import type { SessionSettings } from "./settings";
+
+export type SessionEndReason = "released" | "idle_timeout" | "max_lifetime";
+
+export type SessionRecord = {
+  id: string;
+  backend: BrowserBackend;
+  /** Free-form owner tag given when the session was created, e.g. a user ID. */
+  owner: string | null;
+  settings: SessionSettings;
+  status: "active" | "ended";
+  createdAt: number;
+  lastActivityAt: number;
+  endedAt: number | null;
+  endReason: SessionEndReason | null;
+};
+
+/**
+ * Sessions idle for longer than `CUA_SESSION_IDLE_TIMEOUT_MS` (default 15 minutes)
+ * or older than `CUA_SESSION_MAX_LIFETIME_MS` (default 1 hour) are ended.
+ */
+export const SESSION_IDLE_TIMEOUT_MS =
+  Number(process.env.CUA_SESSION_IDLE_TIMEOUT_MS) || 15 * 60 * 1000;
+export const SESSION_MAX_LIFETIME_MS =
+  Number(process.env.CUA_SESSION_MAX_LIFETIME_MS) || 60 * 60 * 1000;
+
+// Keep the registry on globalThis so it survives hot reloads in development.
+const globalForSessions = globalThis as unknown as {
+  sessions?: Map<string, SessionRecord>;
+};
+const sessions =
+  globalForSessions.sessions ?? new Map<string, SessionRecord>();
+globalForSessions.sessions = sessions;
+
+export function registerSession(
+  id: string,
+  backend: BrowserBackend,
+  owner: string | null,
+  settings: SessionSettings
+): SessionRecord {
+  const now = Date.now();
+  const record: SessionRecord = {
+    id,
+    backend,
+    owner,
+    settings,
+    status: "active",
+    createdAt: now,
+    lastActivityAt: now,
+    endedAt: null,
+    endReason: null,
+  };
+  sessions.set(id, record);
+  return record;
+}
+
+export function getSessionRecord(id: string): SessionRecord | undefined {
+  return sessions.get(id);
+}
+
+/**
+ * Active sessions, oldest first, optionally only those of one owner.
+ */
+export function listActiveSessions(owner?: string | null): SessionRecord[] {
+  return Array.from(sessions.values())
+    .filter(
+      (session) =>
+        session.status === "active" && (!owner || session.owner === owner)
+    )
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function setSessionOwner(id: string, owner: string | null) {
+  const session = sessions.get(id);
+  if (session) {
+    session.owner = owner;
+  }
+}
+
+export function updateSessionSettings(id: string, settings: SessionSettings) {
+  const session = sessions.get(id);
+  if (session) {
+    session.settings = settings;
+  }
+}
+
+export function touchSession(id: string) {
+  const session = sessions.get(id);
+  if (session && session.status === "active") {
+    session.lastActivityAt = Date.now();
+  }
+}
+
+export function markSessionEnded(id: string, reason: SessionEndReason) {
+  const session = sessions.get(id);
+  if (session && session.status === "active") {
+    session.status = "ended";
+    session.endedAt = Date.now();
+    session.endReason = reason;
+  }
+}
+
+/**
+ * The session as returned by the API, with its age and idle time.
+ */
+export function describeSession(session: SessionRecord) {
+  const now = session.endedAt ?? Date.now();
+  return {
+    ...session,
+    ageMs: now - session.createdAt,
+    idleMs: now - session.lastActivityAt,
+  };
+}
@@ -0,0 +1,194 @@
+import type { BrowserBackend } from "./computer";
+
+const REGIONS = [
+  "us-west-2",
+  "us-east-1",
+  "eu-central-1",
+  "ap-southeast-1",
+] as const;
+
+export type BrowserbaseRegion = (typeof REGIONS)[number];
+
+/**
+ * How a browser session is set up. The viewport is also the display size given to
+ * the model's computer tool, so screenshots and coordinates always agree.
+ *
+ * `region`, `proxy` and `blockAds` only apply to Browserbase sessions. `null` for
+ * `locale`, `timezone`, `userAgent` or `startUrl` keeps the browser's default.
+ * `profile` names a vault profile whose cookies and localStorage are loaded first.
+ */
+export type SessionSettings = {
+  viewport: { width: number; height: number };
+  region: BrowserbaseRegion;
+  proxy: boolean;
+  blockAds: boolean;
+  locale: string | null;
+  timezone: string | null;
+  userAgent: string | null;
+  startUrl: string | null;
+  profile: string | null;
+};
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  viewport: { width: 1024, height: 768 },
+  region: "ap-southeast-1",
+  proxy: false,
+  blockAds: true,
+  locale: null,
+  timezone: null,
+  userAgent: null,
+  startUrl: null,
+  profile: null,
+};
+
+const MIN_VIEWPORT_SIZE = 320;
+const MAX_VIEWPORT_SIZE = 3840;
+
+export class SessionSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionSettingsError";
+  }
+}
+
+function optionalString(
+  value: unknown,
+  name: string,
+  validate: (value: string) => boolean
+): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value !== "string" || !validate(value)) {
+    throw new SessionSettingsError(`Invalid ${name}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function optionalBoolean(value: unknown, name: string, fallback: boolean) {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== "boolean") {
+    throw new SessionSettingsError(`${name} must be a boolean`);
+  }
+  return value;
+}
+
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidStartUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:" || url === "about:blank";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate session settings from a request and fill in defaults for anything left
+ * out. Throws `SessionSettingsError` for invalid values.
+ */
+export function parseSessionSettings(input: unknown): SessionSettings {
+  if (input === undefined || input === null) {
+    return DEFAULT_SESSION_SETTINGS;
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new SessionSettingsError("Session settings must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+
+  let viewport = DEFAULT_SESSION_SETTINGS.viewport;
+  if (raw.viewport !== undefined) {
+    const { width, height } = (raw.viewport ?? {}) as Record<string, unknown>;
+    const isValidSize = (size: unknown) =>
+      Number.isInteger(size) &&
+      (size as number) >= MIN_VIEWPORT_SIZE &&
+      (size as number) <= MAX_VIEWPORT_SIZE;
+    if (!isValidSize(width) || !isValidSize(height)) {
+      throw new SessionSettingsError(
+        `viewport width and height must be integers between ${MIN_VIEWPORT_SIZE} and ${MAX_VIEWPORT_SIZE}`
+      );
+    }
+    viewport = { width: width as number, height: height as number };
+  }
+
+  const region = raw.region ?? DEFAULT_SESSION_SETTINGS.region;
+  if (!REGIONS.includes(region as BrowserbaseRegion)) {
+    throw new SessionSettingsError(
+      `region must be one of ${REGIONS.join(", ")}`
+    );
+  }
+
+  return {
+    viewport,
+    region: region as BrowserbaseRegion,
+    proxy: optionalBoolean(raw.proxy, "proxy", DEFAULT_SESSION_SETTINGS.proxy),
+    blockAds: optionalBoolean(
+      raw.blockAds,
+      "blockAds",
+      DEFAULT_SESSION_SETTINGS.blockAds
+    ),
+    locale: optionalString(raw.locale, "locale", isValidLocale),
+    timezone: optionalString(raw.timezone, "timezone", isValidTimezone),
+    userAgent: optionalString(raw.userAgent, "userAgent", (ua) => ua.trim() !== ""),
+    startUrl: optionalString(raw.startUrl, "startUrl", isValidStartUrl),
+    profile: optionalString(raw.profile, "profile", () => true),
+  };
+}
+
+export function isDefaultSettings(settings: SessionSettings): boolean {
+  return JSON.stringify(settings) === JSON.stringify(DEFAULT_SESSION_SETTINGS);
+}
+
+/**
+ * The settings emulated on each page over CDP. Unlike the rest, they can be applied
+ * to a session that is already running.
+ */
+export type EmulationSettings = Pick<
+  SessionSettings,
+  "locale" | "timezone" | "userAgent"
+>;
+
+export function getEmulationSettings(settings: SessionSettings): EmulationSettings {
+  const { locale, timezone, userAgent } = settings;
+  return { locale, timezone, userAgent };
+}
+
+/**
+ * Whether a warm session, started with the default settings, can serve a task with
+ * `settings`: everything but the emulated settings has to be the default.
+ */
+export function canUseWarmSession(settings: SessionSettings): boolean {
+  return isDefaultSettings({
+    ...settings,
+    locale: null,
+    timezone: null,
+    userAgent: null,
+  });
+}
+
+/**
+ * The page a new session opens on when `startUrl` is not set.
+ */
+export function getStartUrl(
+  backend: BrowserBackend,
+  settings: SessionSettings
+): string {
+  if (settings.startUrl) return settings.startUrl;
+  return backend === "browserbase"
+    ? "https://www.google.com"
+    : process.env.LOCAL_BROWSER_START_URL || "about:blank";
+}
@@ -0,0 +1,225 @@
+import type { BrowserContext, Frame, Page, Request } from "playwright";
+
+/**
+ * What to wait for after an action before the screenshot is taken:
+ *
+ * - `navigation`: a page load started by the action has committed and reached
+ *   `domcontentloaded`.
+ * - `dom`: the page has had no DOM mutations for `quietMs`.
+ * - `network`: no requests have been in flight for `quietMs`. Pages that poll or
+ *   stream keep this from settling until the timeout.
+ */
+export type SettleCondition = "navigation" | "dom" | "network";
+
+/**
+ * How long to let the page settle after each action. All conditions in `waitFor`
+ * are awaited, together bounded by `timeoutMs`; an empty list takes the screenshot
+ * right away.
+ */
+export type SettleStrategy = {
+  waitFor: SettleCondition[];
+  quietMs: number;
+  timeoutMs: number;
+};
+
+export const DEFAULT_SETTLE_STRATEGY: SettleStrategy = {
+  waitFor: ["navigation", "dom"],
+  quietMs: 200,
+  timeoutMs: 3000,
+};
+
+const CONDITIONS: SettleCondition[] = ["navigation", "dom", "network"];
+const MAX_TIMEOUT_MS = 30000;
+const POLL_INTERVAL_MS = 50;
+
+export class SettleStrategyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SettleStrategyError";
+  }
+}
+
+function optionalDuration(value: unknown, name: string, fallback: number): number {
+  if (value === undefined || value === null) return fallback;
+  if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_TIMEOUT_MS) {
+    throw new SettleStrategyError(
+      `${name} must be an integer between 0 and ${MAX_TIMEOUT_MS}`
+    );
+  }
+  return value as number;
+}
+
+/**
+ * Validate a settle strategy from a request and fill in defaults for anything left
+ * out. `"none"` skips settling. Throws `SettleStrategyError` for invalid values.
+ */
+export function parseSettleStrategy(input: unknown): SettleStrategy {
+  if (input === undefined || input === null) {
+    return DEFAULT_SETTLE_STRATEGY;
+  }
+  if (input === "none") {
+    return { ...DEFAULT_SETTLE_STRATEGY, waitFor: [] };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new SettleStrategyError('settle must be an object or "none"');
+  }
+  const raw = input as Record<string, unknown>;
+
+  const waitFor = raw.waitFor ?? DEFAULT_SETTLE_STRATEGY.waitFor;
+  if (
+    !Array.isArray(waitFor) ||
+    !waitFor.every((condition) => CONDITIONS.includes(condition))
+  ) {
+    throw new SettleStrategyError(
+      `settle.waitFor must be a list of ${CONDITIONS.join(", ")}`
+    );
+  }
+
+  return {
+    waitFor: Array.from(new Set(waitFor as SettleCondition[])),
+    quietMs: optionalDuration(raw.quietMs, "settle.quietMs", DEFAULT_SETTLE_STRATEGY.quietMs),
+    timeoutMs: optionalDuration(
+      raw.timeoutMs,
+      "settle.timeoutMs",
+      DEFAULT_SETTLE_STRATEGY.timeoutMs
+    ),
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Follows the requests and navigations of a browser context while an action runs,
+ * so it can then wait for whatever the action started.
+ */
+export class SettleWatcher {
+  private context: BrowserContext;
+  private strategy: SettleStrategy;
+  private inFlight = new Set<Request>();
+  private lastNetworkActivity = Date.now();
+  // Page loads started while watching, each with a promise that settles on commit
+  private navigations = new Map<Request, Promise<unknown>>();
+
+  private onRequest = (request: Request) => {
+    this.inFlight.add(request);
+    this.lastNetworkActivity = Date.now();
+
+    if (request.serviceWorker() || !request.isNavigationRequest()) return;
+    let frame: Frame;
+    try {
+      frame = request.frame();
+    } catch {
+      // The first load of a new tab starts before its frame exists
+      return;
+    }
+    const page = frame.page();
+    if (frame === page.mainFrame()) {
+      const committed = page
+        .waitForEvent("framenavigated", {
+          predicate: (navigated) => navigated === page.mainFrame(),
+          timeout: this.strategy.timeoutMs,
+        })
+        .catch(() => {});
+      this.navigations.set(request, committed);
+    }
+  };
+
+  private onRequestDone = (request: Request) => {
+    this.inFlight.delete(request);
+    this.lastNetworkActivity = Date.now();
+  };
+
+  // A failed page load, or one that turned into a download, never commits
+  private onRequestFailed = (request: Request) => {
+    this.onRequestDone(request);
+    this.navigations.delete(request);
+  };
+
+  constructor(context: BrowserContext, strategy: SettleStrategy) {
+    this.context = context;
+    this.strategy = strategy;
+    context.on("request", this.onRequest);
+    context.on("requestfinished", this.onRequestDone);
+    context.on("requestfailed", this.onRequestFailed);
+  }
+
+  dispose() {
+    this.context.off("request", this.onRequest);
+    this.context.off("requestfinished", this.onRequestDone);
+    this.context.off("requestfailed", this.onRequestFailed);
+  }
+
+  /**
+   * Wait until `page` settles as the strategy describes, or its timeout passes.
+   * Never throws: a page that doesn't settle in time is captured as it is.
+   */
+  async settle(page: Page): Promise<void> {
+    const strategy = this.strategy;
+    const deadline = Date.now() + strategy.timeoutMs;
+    const remaining = () => Math.max(0, deadline - Date.now());
+
+    const navigation = Array.from(this.navigations).find(
+      ([request]) => request.frame().page() === page
+    );
+    if (strategy.waitFor.includes("navigation") && navigation) {
+      await Promise.race([navigation[1], sleep(remaining())]);
+      await page
+        .waitForLoadState("domcontentloaded", { timeout: remaining() })
+        .catch(() => {});
+    }
+
+    await Promise.all([
+      strategy.waitFor.includes("dom")
+        ? waitForQuietDom(page, strategy.quietMs, remaining())
+        : null,
+      strategy.waitFor.includes("network")
+        ? this.waitForQuietNetwork(strategy.quietMs, deadline)
+        : null,
+    ]);
+  }
+
+  private async waitForQuietNetwork(quietMs: number, deadline: number) {
+    while (Date.now() < deadline) {
+      if (
+        this.inFlight.size === 0 &&
+        Date.now() - this.lastNetworkActivity >= quietMs
+      ) {
+        return;
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+// Resolves once the page has gone `quietMs` without DOM mutations, or after `timeoutMs`
+async function waitForQuietDom(page: Page, quietMs: number, timeoutMs: number) {
+  if (timeoutMs <= 0) return;
+  await page
+    .evaluate(
+      ({ quietMs, timeoutMs }) =>
+        new Promise<void>((resolve) => {
+          let quietTimer: ReturnType<typeof setTimeout>;
+          const done = () => {
+            observer.disconnect();
+            clearTimeout(quietTimer);
+            clearTimeout(limitTimer);
+            resolve();
+          };
+          const observer = new MutationObserver(() => {
+            clearTimeout(quietTimer);
+            quietTimer = setTimeout(done, quietMs);
+          });
+          observer.observe(document, {
+            subtree: true,
+            childList: true,
+            attributes: true,
+            characterData: true,
+          });
+          quietTimer = setTimeout(done, quietMs);
+          const limitTimer = setTimeout(done, timeoutMs);
+        }),
+      { quietMs, timeoutMs }
+    )
+    // A navigation replaces the document mid-wait; the new one is captured as it is
+    .catch(() => {});
+}
@@ -0,0 +1,270 @@
+import { createHash } from "crypto";
+import { appendFile, mkdir, readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { FixtureEntry } from "./providers";
+import type { OutputSchema } from "./schema";
+import { ComputerAction, InputItem, Item, SafetyCheck } from "./types";
+
+export type RunSummary = {
+  id: string;
+  sessionId: string;
+  userInput: string;
+  status: string;
+  steps: number;
+  maxSteps: number;
+  maxDurationMs: number;
+  startedAt: number;
+  finishedAt: number | null;
+  responseId: string | null;
+  finalMessage: string | null;
+  outputSchema: OutputSchema | null;
+  /** The final answer parsed as JSON, for runs with an output schema. */
+  result: unknown;
+  error: string | null;
+};
+
+/**
+ * One line of a run transcript. Screenshots are stored as separate files and
+ * referenced by name, so `image_url` in stored items points at `screenshots/<file>`.
+ */
+export type TranscriptEntry = { timestamp: number } & (
+  | {
+      type: "request";
+      input: InputItem[];
+      previous_response_id: string | null;
+    }
+  | { type: "response"; responseId: string; output: Item[] }
+  | { type: "computer_action"; call_id: string; action: ComputerAction }
+  | {
+      type: "function_action";
+      call_id: string;
+      name: string;
+      arguments: string;
+    }
+  | { type: "output"; output: InputItem }
+  | { type: "status"; status: string; error?: string }
+  | { type: "safety_check"; check: SafetyCheck; approved: boolean }
+);
+
+export interface RunStore {
+  saveRun(summary: RunSummary): Promise<void>;
+  appendEntry(runId: string, entry: TranscriptEntry): Promise<void>;
+  listRuns(): Promise<RunSummary[]>;
+  getRun(runId: string): Promise<RunSummary | null>;
+  getTranscript(runId: string): Promise<TranscriptEntry[] | null>;
+  getScreenshot(
+    runId: string,
+    name: string
+  ): Promise<{ data: Buffer; mimeType: string } | null>;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+};
+
+// Run IDs and screenshot names come from URLs; never let them escape the store.
+// Names made of dots only, like "..", would point at a parent directory.
+const SAFE_NAME = /^(?!\.+$)[a-zA-Z0-9_.-]+$/;
+
+/**
+ * Stores each run in its own directory:
+ *
+ * - `run.json` holds the latest summary.
+ * - `transcript.jsonl` holds one `TranscriptEntry` per line, in order.
+ * - `screenshots/<hash>.<ext>` holds every screenshot sent to the model, named after
+ *   a hash of the image.
+ */
+export class FileRunStore implements RunStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  private runDir(runId: string): string {
+    if (!SAFE_NAME.test(runId)) {
+      throw new Error(`Invalid run ID: ${runId}`);
+    }
+    return path.join(this.rootDir, runId);
+  }
+
+  async saveRun(summary: RunSummary): Promise<void> {
+    const dir = this.runDir(summary.id);
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      path.join(dir, "run.json"),
+      JSON.stringify(summary, null, 2)
+    );
+  }
+
+  async appendEntry(runId: string, entry: TranscriptEntry): Promise<void> {
+    const dir = this.runDir(runId);
+    await mkdir(path.join(dir, "screenshots"), { recursive: true });
+
+    const stored = await this.extractScreenshots(dir, entry);
+    await appendFile(
+      path.join(dir, "transcript.jsonl"),
+      JSON.stringify(stored) + "\n"
+    );
+  }
+
+  async listRuns(): Promise<RunSummary[]> {
+    const ids = await readdir(this.rootDir).catch(() => []);
+    const runs = await Promise.all(ids.map((id) => this.getRun(id)));
+    return runs
+      .filter((run): run is RunSummary => run !== null)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async getRun(runId: string): Promise<RunSummary | null> {
+    if (!SAFE_NAME.test(runId)) return null;
+    try {
+      const data = await readFile(
+        path.join(this.runDir(runId), "run.json"),
+        "utf-8"
+      );
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  async getTranscript(runId: string): Promise<TranscriptEntry[] | null> {
+    if (!SAFE_NAME.test(runId)) return null;
+    try {
+      const data = await readFile(
+        path.join(this.runDir(runId), "transcript.jsonl"),
+        "utf-8"
+      );
+      return data
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line));
+    } catch {
+      return null;
+    }
+  }
+
+  async getScreenshot(
+    runId: string,
+    name: string
+  ): Promise<{ data: Buffer; mimeType: string } | null> {
+    if (!SAFE_NAME.test(runId) || !SAFE_NAME.test(name)) return null;
+    const mimeType = MIME_TYPES[path.extname(name).slice(1)];
+    if (!mimeType) return null;
+    try {
+      const data = await readFile(
+        path.join(this.runDir(runId), "screenshots", name)
+      );
+      return { data, mimeType };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write inline screenshots to files and swap their data URLs for file references.
+   * This covers computer call outputs and images in messages, such as the start page
+   * or the screenshot after a hand-back. Files are named after a hash of the image,
+   * so a screenshot repeated in the next request refers to the file already written,
+   * and a retaken screenshot gets a file of its own.
+   */
+  private async extractScreenshots(
+    dir: string,
+    entry: TranscriptEntry
+  ): Promise<TranscriptEntry> {
+    const store = async (imageUrl: string): Promise<string> => {
+      const match = imageUrl.match(/^data:image\/(\w+);base64,(.*)$/);
+      if (!match) return imageUrl;
+
+      const [, extension, base64] = match;
+      const hash = createHash("sha256").update(base64).digest("hex").slice(0, 32);
+      const name = `${hash}.${extension}`;
+      try {
+        await writeFile(
+          path.join(dir, "screenshots", name),
+          Buffer.from(base64, "base64"),
+          { flag: "wx" }
+        );
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+      return `screenshots/${name}`;
+    };
+
+    const replace = async (item: InputItem): Promise<InputItem> => {
+      if ("type" in item && item.type === "computer_call_output") {
+        return {
+          ...item,
+          output: {
+            ...item.output,
+            image_url: await store(item.output.image_url),
+          },
+        };
+      }
+      if ("role" in item && Array.isArray(item.content)) {
+        return {
+          ...item,
+          content: await Promise.all(
+            item.content.map(async (content) =>
+              content.type === "input_image" && content.image_url
+                ? { ...content, image_url: await store(content.image_url) }
+                : content
+            )
+          ),
+        };
+      }
+      return item;
+    };
+
+    if (entry.type === "output") {
+      return { ...entry, output: await replace(entry.output) };
+    }
+    if (entry.type === "request") {
+      return { ...entry, input: await Promise.all(entry.input.map(replace)) };
+    }
+    return entry;
+  }
+}
+
+/**
+ * Turn a transcript into a fixture that `ReplayProvider` can play back, pairing each
+ * response with the `previous_response_id` of the request that produced it.
+ */
+export function transcriptToFixture(entries: TranscriptEntry[]): FixtureEntry[] {
+  const fixture: FixtureEntry[] = [];
+  let previousResponseId: string | null = null;
+
+  for (const entry of entries) {
+    if (entry.type === "request") {
+      previousResponseId = entry.previous_response_id;
+    } else if (entry.type === "response") {
+      fixture.push({
+        previous_response_id: previousResponseId,
+        response: {
+          id: entry.responseId,
+          output: entry.output,
+        } as FixtureEntry["response"],
+      });
+    }
+  }
+
+  return fixture;
+}
+
+let runStore: RunStore | null = null;
+
+/**
+ * The run store configured by `CUA_RUNS_DIR` (default `.runs` in the working
+ * directory).
+ */
+export function getRunStore(): RunStore {
+  if (!runStore) {
+    runStore = new FileRunStore(
+      path.resolve(process.env.CUA_RUNS_DIR || ".runs")
+    );
+  }
+  return runStore;
+}
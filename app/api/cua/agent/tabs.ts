@@ -0,0 +1,42 @@
+import { Page } from "playwright";
+
+// Keep the active tab of each session on globalThis so it survives hot reloads in
+// development, and so every request for a session sees the same tab.
+const globalForTabs = globalThis as unknown as {
+  activeTabs?: Map<string, string>;
+};
+const activeTabs = globalForTabs.activeTabs ?? new Map<string, string>();
+globalForTabs.activeTabs = activeTabs;
+
+// A page keeps its target ID for its whole life, so look it up once.
+const tabIds = new WeakMap<Page, string>();
+
+/**
+ * The CDP target ID of a page. The same ID identifies the page in the Browserbase
+ * debug API, so it is used as the tab ID everywhere.
+ */
+export async function getTabId(page: Page): Promise<string> {
+  const cached = tabIds.get(page);
+  if (cached) return cached;
+
+  const cdpSession = await page.context().newCDPSession(page);
+  try {
+    const { targetInfo } = await cdpSession.send("Target.getTargetInfo");
+    tabIds.set(page, targetInfo.targetId);
+    return targetInfo.targetId;
+  } finally {
+    await cdpSession.detach().catch(() => {});
+  }
+}
+
+export function getActiveTabId(sessionId: string): string | null {
+  return activeTabs.get(sessionId) ?? null;
+}
+
+export function setActiveTabId(sessionId: string, tabId: string) {
+  activeTabs.set(sessionId, tabId);
+}
+
+export function clearActiveTab(sessionId: string) {
+  activeTabs.delete(sessionId);
+}
@@ -0,0 +1,84 @@
+import { OutputSchema } from "./schema";
+import { InputItem } from "./types";
+
+export const DEVELOPER_PROMPT =
+  "You are a helpful assistant that can use a web browser to accomplish tasks. Follow these important guidelines: 1) Always start by asking the user what they need to accomplish. 2) If a website you visited requires login, prioritize logging in first before attempting any other actions. Use fill_credentials to enter saved credentials, and never ask the user to share a password in the chat. 3) When navigating to websites, go directly to the specific URL instead of using search engines like Google whenever possible. 4) Be clear and concise in your communications with the user. 5) Ask for more context in the beginning before starting the task. 6) No need to ask the user for something trivial.";
+
+/**
+ * Added for tasks with an output schema, whose final message is parsed as the result.
+ */
+export function structuredOutputPrompt(outputSchema: OutputSchema): string {
+  return `This is a data extraction task. Do not ask the user any questions; make reasonable assumptions instead. When you have the data, reply with a single JSON object matching the "${outputSchema.name}" schema and nothing else. That reply is the result of the task.`;
+}
+
+/**
+ * Sent when the user hands the browser back after taking over, for example to solve
+ * a CAPTCHA or confirm a payment.
+ */
+export function handBackMessage(currentUrl: string, note?: string): string {
+  const message = `I took over the browser for a moment and have handed control back to you. The page may have changed; it is now at ${currentUrl}. Continue the task from the current state of the page, without redoing what I did.`;
+  return note?.trim() ? `${message} Note from me: ${note.trim()}` : message;
+}
+
+// Matches a full URL, or a bare domain with a common TLD and an optional path.
+export const URL_PATTERN =
+  /(https?:\/\/[^\s]+)|(?:^|\s)((?:[a-zA-Z0-9-]+\.)+(?:com|org|edu|gov|net|io|ai|app|dev|co|me|info|biz)\b(?:\/[^\s]*)?)/;
+
+/**
+ * The page a request names, as a URL the browser can open. Bare domains get
+ * `https://`, and punctuation ending the sentence is dropped.
+ */
+export function findTaskUrl(userInput: string): string | null {
+  const match = userInput.match(URL_PATTERN);
+  if (!match) return null;
+  const url = (match[1] ?? `https://${match[2]}`).replace(/[.,;:!?)\]'"]+$/, "");
+  return URL.canParse(url) ? url : null;
+}
+
+/**
+ * Build the first model input for a task. `startPage` is the page the browser was
+ * sent to before the task started; the model gets a screenshot of it ahead of the
+ * user's request, so its first turn can act on the page right away.
+ */
+export function buildInitialInput(
+  userInput: string,
+  outputSchema: OutputSchema | null = null,
+  startPage: { url: string; imageUrl: string } | null = null
+): InputItem[] {
+  return [
+    {
+      role: "developer",
+      content: DEVELOPER_PROMPT,
+    },
+    ...(outputSchema
+      ? [
+          {
+            role: "developer" as const,
+            content: structuredOutputPrompt(outputSchema),
+          },
+        ]
+      : []),
+    ...(startPage
+      ? [
+          {
+            role: "user" as const,
+            content: [
+              {
+                type: "input_text" as const,
+                text: `The browser is already open at ${startPage.url}. This is a screenshot of the page.`,
+              },
+              {
+                type: "input_image" as const,
+                image_url: startPage.imageUrl,
+                detail: "auto" as const,
+              },
+            ],
+          },
+        ]
+      : []),
+    {
+      role: "user",
+      content: userInput,
+    },
+  ];
+}
@@ -0,0 +1,111 @@
+import type { Browser, Page } from "playwright";
+import { BasePlaywrightComputer, PageState } from "./base_playwright";
+import type { ModelProvider } from "./providers";
+import type { Screenshot } from "./screenshots";
+import type { InputItem, Item, RequestOptions, Response } from "./types";
+
+/**
+ * A computer for tests that records the actions it is asked to take instead of
+ * driving a browser.
+ */
+export class FakeComputer extends BasePlaywrightComputer {
+  actions: string[] = [];
+  url = "https://example.com/";
+  passwordFieldFocused = false;
+
+  protected async _getBrowserAndPage(): Promise<[Browser, Page]> {
+    throw new Error("FakeComputer has no browser");
+  }
+
+  async syncActiveTab(): Promise<void> {}
+
+  getCurrentUrl(): string {
+    return this.url;
+  }
+
+  async getPageState(): Promise<PageState> {
+    return { url: this.url, title: "" };
+  }
+
+  async captureScreenshot(): Promise<Screenshot> {
+    return { data: "", mimeType: "image/png" };
+  }
+
+  async isPasswordFieldFocused(): Promise<boolean> {
+    return this.passwordFieldFocused;
+  }
+
+  async settleAfter<T>(action: () => Promise<T>): Promise<T> {
+    return action();
+  }
+
+  async type(text: string): Promise<void> {
+    this.actions.push(`type ${text}`);
+  }
+
+  async keypress(keys: string[]): Promise<void> {
+    this.actions.push(`keypress ${keys.join("+")}`);
+  }
+
+  async wait(): Promise<void> {
+    this.actions.push("wait");
+  }
+}
+
+/**
+ * A model provider for tests that answers with the given outputs in turn, and
+ * checks requests the way the Responses API does: every call in the previous
+ * response needs an output in the input that continues it.
+ */
+export class ScriptedProvider implements ModelProvider {
+  requests: RequestOptions[] = [];
+  private outputs: Item[][];
+  private responses = new Map<string, Item[]>();
+
+  constructor(outputs: Item[][]) {
+    this.outputs = outputs;
+  }
+
+  async createResponse(options: RequestOptions): Promise<Response> {
+    this.requests.push(options);
+    const previous = options.previous_response_id
+      ? this.responses.get(options.previous_response_id)
+      : undefined;
+    const input = (Array.isArray(options.input) ? options.input : []) as InputItem[];
+    for (const item of previous ?? []) {
+      if (item.type !== "computer_call" && item.type !== "function_call") continue;
+      const answered = input.some(
+        (entry) => "call_id" in entry && entry.call_id === item.call_id
+      );
+      if (!answered) {
+        throw new Error(`400 No tool output found for ${item.type} ${item.call_id}.`);
+      }
+    }
+
+    const output = this.outputs[Math.min(this.requests.length, this.outputs.length) - 1];
+    const id = `resp_${this.requests.length}`;
+    this.responses.set(id, output);
+    return { id, output } as Response;
+  }
+}
+
+/** A `computer_call` item from the model. */
+export function computerCall(callId: string, action: Record<string, unknown>): Item {
+  return {
+    type: "computer_call",
+    id: `cu_${callId}`,
+    call_id: callId,
+    action,
+    pending_safety_checks: [],
+  } as unknown as Item;
+}
+
+/** A final assistant message from the model. */
+export function assistantMessage(text: string): Item {
+  return {
+    type: "message",
+    id: `msg_${text.length}`,
+    role: "assistant",
+    content: [{ type: "output_text", text, annotations: [] }],
+  } as unknown as Item;
+}
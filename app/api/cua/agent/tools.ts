@@ -0,0 +1,90 @@
+import type { BasePlaywrightComputer } from "./base_playwright";
+import { CUSTOM_TOOLS } from "./custom_tools";
+import { FunctionTool } from "./types";
+
+export interface ToolContext {
+  /** The browser of the session the agent is working in. */
+  computer: BasePlaywrightComputer;
+  /** Aborted when the task is cancelled; pass it on to `fetch` and the like. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A function tool the model can call, handled on the server. The handler gets the
+ * parsed arguments; what it returns is sent back to the model as JSON. Thrown
+ * errors are reported to the model as `action_failed`.
+ */
+export interface CustomTool {
+  name: string;
+  description: string;
+  /** JSON schema of the arguments. */
+  parameters: object;
+  strict?: boolean;
+  handler: (
+    args: Record<string, unknown>,
+    context: ToolContext
+  ) => unknown | Promise<unknown>;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Custom function tools offered to the model next to the built-in browser tools.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, CustomTool>();
+
+  /**
+   * Add a tool, replacing any tool registered under the same name.
+   */
+  register(tool: CustomTool): this {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(
+        `Invalid tool name "${tool.name}": use 1-64 letters, digits, underscores or dashes`
+      );
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  get(name: string): CustomTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * The tool definitions sent to the model.
+   */
+  definitions(): FunctionTool[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      type: "function",
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+      strict: tool.strict ?? false,
+    }));
+  }
+}
+
+// Keep the default registry on globalThis, like the other server state, so tools
+// registered at runtime are seen by every route and survive hot reloads. The tools
+// from `custom_tools.ts` are registered again on each load to pick up edits.
+const globalForTools = globalThis as unknown as {
+  toolRegistry?: ToolRegistry;
+};
+const defaultRegistry = globalForTools.toolRegistry ?? new ToolRegistry();
+globalForTools.toolRegistry = defaultRegistry;
+for (const tool of CUSTOM_TOOLS) {
+  defaultRegistry.register(tool);
+}
+
+/**
+ * The registry every agent uses unless given its own. It starts out with the tools
+ * listed in `custom_tools.ts`.
+ */
+export function getToolRegistry(): ToolRegistry {
+  return defaultRegistry;
+}
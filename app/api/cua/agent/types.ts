@@ -91,6 +91,8 @@ export type Click = {
   button: "left" | "right" | "wheel" | "back" | "forward";
   x: number;
   y: number;
+  /** Modifier keys held during the click, e.g. `["ctrl"]`. */
+  keys?: string[];
 };
 
 export type DoubleClick = {
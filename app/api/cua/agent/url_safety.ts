@@ -0,0 +1,14 @@
+import type { UrlSafetyCheck } from "./agent";
+
+/**
+ * Your own URL safety check, run by every agent whenever the page moves to a new
+ * URL, unless the agent is given its own `urlSafetyCheck`. For example:
+ *
+ * ```ts
+ * (url) =>
+ *   new URL(url).protocol === "http:"
+ *     ? { id: `insecure-${url}`, code: "insecure_url", message: `${url} is not using HTTPS` }
+ *     : null
+ * ```
+ */
+export const URL_SAFETY_CHECK: UrlSafetyCheck | null = null;
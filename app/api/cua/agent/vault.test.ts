@@ -0,0 +1,64 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { Browser, Page } from "playwright";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { ModelProvider } from "./providers";
+
+describe("fill_credentials with a corrupt vault file", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "cua-vault-"));
+    const vaultPath = path.join(dir, "vault.json");
+    await writeFile(
+      vaultPath,
+      '{"credentials": {"intranet": {"urls": ["https://intranet.example.com/"], "username": "agent", "password": hunter2}}}'
+    );
+    // The vault path is read when the module loads
+    vi.stubEnv("CUA_VAULT_PATH", vaultPath);
+    vi.resetModules();
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("tells the model the vault is invalid without quoting it", async () => {
+    const { Agent } = await import("./agent");
+    const { BasePlaywrightComputer } = await import("./base_playwright");
+
+    // Only the page URL is needed before the vault is read
+    class TestComputer extends BasePlaywrightComputer {
+      constructor() {
+        super();
+        this._page = {
+          url: () => "https://intranet.example.com/login",
+        } as unknown as Page;
+      }
+
+      protected async _getBrowserAndPage(): Promise<[Browser, Page]> {
+        throw new Error("not connected");
+      }
+    }
+
+    const agent = new Agent("computer-use-preview", new TestComputer(), undefined, {
+      provider: {} as ModelProvider,
+    });
+    const result = await agent.takeFunctionAction({
+      type: "function_call",
+      id: "fc_1",
+      call_id: "call_1",
+      name: "fill_credentials",
+      arguments: '{"site": "intranet"}',
+      output: null,
+    });
+
+    expect(JSON.parse(result.output)).toEqual({
+      error: "credentials_unavailable",
+      message: "The vault file is not valid JSON",
+    });
+    expect(result.output).not.toContain("hunter2");
+  });
+});
@@ -0,0 +1,115 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { BrowserContext } from "playwright";
+
+/**
+ * A saved login. `urls` are the pages the login may be filled in on; only pages on
+ * the same origin as one of them qualify.
+ */
+export type Credential = {
+  urls: string[];
+  username: string;
+  password: string;
+};
+
+type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+/**
+ * Cookies and localStorage loaded into a session before a task starts, in the
+ * format of Playwright's `context.storageState()`. Both fields are optional.
+ */
+export type BrowserProfile = {
+  cookies?: StorageState["cookies"];
+  origins?: StorageState["origins"];
+};
+
+type Vault = {
+  credentials: Record<string, Credential>;
+  profiles: Record<string, BrowserProfile>;
+};
+
+/**
+ * The vault is a JSON file at `CUA_VAULT_PATH` (default `.vault.json`). It is read
+ * on every lookup, so edits apply without a restart.
+ */
+const VAULT_PATH = path.resolve(process.env.CUA_VAULT_PATH || ".vault.json");
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VaultError";
+  }
+}
+
+async function loadVault(): Promise<Vault> {
+  let contents: string;
+  try {
+    contents = await readFile(VAULT_PATH, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { credentials: {}, profiles: {} };
+    }
+    throw error;
+  }
+
+  let vault: Partial<Vault>;
+  try {
+    vault = JSON.parse(contents);
+  } catch {
+    // The parser's message quotes the file, which holds the secrets
+    throw new VaultError("The vault file is not valid JSON");
+  }
+  return {
+    credentials: vault.credentials ?? {},
+    profiles: vault.profiles ?? {},
+  };
+}
+
+function unknownEntry(kind: string, name: string, known: string[]): VaultError {
+  return new VaultError(
+    `No saved ${kind} named "${name}". Available: ${known.join(", ") || "none"}`
+  );
+}
+
+/**
+ * The saved login for `site`, if the page at `url` is one it may be filled in on.
+ */
+export async function getCredential(
+  site: string,
+  url: string
+): Promise<Credential> {
+  const { credentials } = await loadVault();
+  const credential = Object.hasOwn(credentials, site) ? credentials[site] : null;
+  if (!credential) {
+    throw unknownEntry("credentials", site, Object.keys(credentials));
+  }
+
+  if (!isAllowedOrigin(credential, url)) {
+    throw new VaultError(
+      `The credentials for "${site}" cannot be used on ${new URL(url).origin}. Go to the login page of ${site} first.`
+    );
+  }
+  return credential;
+}
+
+/**
+ * Whether `credential` may be filled in on the page or frame at `url`, which must be
+ * on the same origin as one of its `urls`.
+ */
+export function isAllowedOrigin(credential: Credential, url: string): boolean {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    return false;
+  }
+  return credential.urls.some((allowed) => new URL(allowed).origin === origin);
+}
+
+export async function getProfile(name: string): Promise<BrowserProfile> {
+  const { profiles } = await loadVault();
+  if (!Object.hasOwn(profiles, name)) {
+    throw unknownEntry("profile", name, Object.keys(profiles));
+  }
+  return profiles[name];
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getRun } from "../../../agent/runner";
+
+/**
+ * Cancel a run, aborting its in-flight model request and browser action.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  // Resolves once in-flight calls are aborted and the run has stopped
+  if (!(await run.cancel())) {
+    return NextResponse.json(
+      { error: `Run has already stopped with status ${run.status}` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ runId: run.id, status: run.status });
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { getRun, isRunActive, RunEvent } from "../../../agent/runner";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Stream run events as Server-Sent Events. The stream replays every event after
+ * `?after=<seq>` (or the `Last-Event-ID` header on reconnect), then follows the run
+ * live and closes once it stops. A run paused on a safety check keeps its stream open.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const after =
+    Number(
+      request.headers.get("last-event-id") ??
+        new URL(request.url).searchParams.get("after")
+    ) || 0;
+  const backlog = run.eventsAfter(after);
+
+  // 204 tells EventSource to stop reconnecting once there is nothing left to send.
+  if (!isRunActive(run.status) && backlog.length === 0) {
+    return new Response(null, { status: 204 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const send = (event: RunEvent) => {
+        controller.enqueue(
+          encoder.encode(`id: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`)
+        );
+      };
+
+      // Replaying and subscribing happen in the same tick, so no event is missed.
+      backlog.forEach(send);
+      if (!isRunActive(run.status)) {
+        closed = true;
+        controller.close();
+        return;
+      }
+
+      const unsubscribe = run.subscribe((event) => {
+        send(event);
+        if (event.type === "status" && !isRunActive(event.status)) {
+          close();
+        }
+      });
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(": heartbeat\n\n"));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { after, NextResponse } from "next/server";
+import { getRun } from "../../../agent/runner";
+
+/**
+ * Give control back to the model after a takeover, with an optional note about what
+ * the user did.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (body.note !== undefined && typeof body.note !== "string") {
+    return NextResponse.json(
+      { error: "note must be a string" },
+      { status: 400 }
+    );
+  }
+
+  if (!run.handBack(body.note)) {
+    return NextResponse.json(
+      { error: `Run is not taken over (status ${run.status})` },
+      { status: 409 }
+    );
+  }
+  after(run.done);
+
+  return NextResponse.json(
+    { runId: run.id, status: run.status },
+    { status: 202 }
+  );
+}
@@ -0,0 +1,52 @@
+import { after, NextResponse } from "next/server";
+import { getRun, isRunActive, isRunPaused } from "../../../agent/runner";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (!body.input) {
+    return NextResponse.json(
+      { error: "Missing input in request body" },
+      { status: 400 }
+    );
+  }
+
+  if (isRunActive(run.status)) {
+    return NextResponse.json(
+      { error: "Run is still in progress" },
+      { status: 409 }
+    );
+  }
+  if (isRunPaused(run.status) || run.status === "cancelled") {
+    return NextResponse.json(
+      { error: `Run is ${run.status}` },
+      { status: 409 }
+    );
+  }
+
+  if (!run.canSendInput()) {
+    return NextResponse.json(
+      {
+        error: `Run stopped (${run.status}) in the middle of a step and cannot continue; start a new run`,
+      },
+      { status: 409 }
+    );
+  }
+
+  run.sendInput(body.input);
+  after(run.done);
+
+  return NextResponse.json(
+    { runId: run.id, status: run.status },
+    { status: 202 }
+  );
+}
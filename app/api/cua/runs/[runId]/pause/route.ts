@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getRun } from "../../../agent/runner";
+
+/**
+ * Pause a run after its current step, keeping its browser session and response chain.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  if (!run.pause()) {
+    return NextResponse.json(
+      { error: `Run is not in progress (status ${run.status})` },
+      { status: 409 }
+    );
+  }
+
+  // The run pauses after its current step; a `paused` status event follows.
+  return NextResponse.json(
+    { runId: run.id, status: run.status },
+    { status: 202 }
+  );
+}
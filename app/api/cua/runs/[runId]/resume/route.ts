@@ -0,0 +1,30 @@
+import { after, NextResponse } from "next/server";
+import { getRun } from "../../../agent/runner";
+
+/**
+ * Continue a paused run from where it stopped.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  if (!run.resume()) {
+    return NextResponse.json(
+      { error: `Run is not paused (status ${run.status})` },
+      { status: 409 }
+    );
+  }
+  after(run.done);
+
+  return NextResponse.json(
+    { runId: run.id, status: run.status },
+    { status: 202 }
+  );
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getRun } from "../../agent/runner";
+import { getRunStore } from "../../agent/store";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    // Runs from before a server restart are only in the store, without live events.
+    const stored = await getRunStore().getRun(runId);
+    if (!stored) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ...stored, events: [] });
+  }
+
+  // Pollers pass the last seq they saw to only receive new events.
+  const after = Number(new URL(request.url).searchParams.get("after")) || 0;
+
+  return NextResponse.json({ ...run.toJSON(), events: run.eventsAfter(after) });
+}
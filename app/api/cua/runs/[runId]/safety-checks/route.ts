@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getRun } from "../../../agent/runner";
+
+/**
+ * Approve or reject the safety check a run is paused on.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.checkId !== "string" || typeof body.approved !== "boolean") {
+    return NextResponse.json(
+      { error: "Request body must include checkId and approved" },
+      { status: 400 }
+    );
+  }
+
+  const resolved = await run.resolveSafetyCheck(body.checkId, body.approved);
+  if (!resolved) {
+    return NextResponse.json(
+      { error: "No pending safety check with that ID" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ runId: run.id, status: run.status });
+}
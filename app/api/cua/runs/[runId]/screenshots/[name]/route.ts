@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getRunStore } from "../../../../agent/store";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ runId: string; name: string }> }
+) {
+  const { runId, name } = await params;
+  const screenshot = await getRunStore().getScreenshot(runId, name);
+
+  if (!screenshot) {
+    return NextResponse.json({ error: "Screenshot not found" }, { status: 404 });
+  }
+
+  return new Response(new Uint8Array(screenshot.data), {
+    headers: {
+      "Content-Type": screenshot.mimeType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getRun } from "../../../agent/runner";
+
+/**
+ * Hand the browser to the user after the run's current step, until they hand it back.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const run = getRun(runId);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  if (!(await run.takeOver())) {
+    return NextResponse.json(
+      { error: `Run is not in progress (status ${run.status})` },
+      { status: 409 }
+    );
+  }
+
+  // A running run stops after its current step; a `taken_over` status event follows.
+  return NextResponse.json(
+    { runId: run.id, status: run.status },
+    { status: 202 }
+  );
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getRunStore, transcriptToFixture } from "../../../agent/store";
+
+/**
+ * Return the full stored transcript of a run. Screenshot URLs in the entries are
+ * relative to this route. Pass `?format=fixture` to get the model responses in the
+ * format `ReplayProvider` plays back.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params;
+  const store = getRunStore();
+  const [run, transcript] = await Promise.all([
+    store.getRun(runId),
+    store.getTranscript(runId),
+  ]);
+
+  if (!run || !transcript) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  if (new URL(request.url).searchParams.get("format") === "fixture") {
+    return NextResponse.json(transcriptToFixture(transcript));
+  }
+
+  return NextResponse.json({ run, transcript });
+}
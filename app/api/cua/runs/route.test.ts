@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from "vitest";
+import { startRun } from "../agent/runner";
+import { POST } from "./route";
+
+vi.mock("../agent/runner", () => ({ startRun: vi.fn() }));
+
+describe("POST /api/cua/runs", () => {
+  it("rejects an output schema with an invalid pattern", async () => {
+    const response = await POST(
+      new Request("http://localhost/api/cua/runs", {
+        method: "POST",
+        body: JSON.stringify({
+          sessionId: "session-1",
+          userInput: "Find the order number",
+          outputSchema: {
+            type: "object",
+            properties: { order: { type: "string", pattern: "([0-9]+" } },
+          },
+        }),
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain(
+      "$.properties.order: pattern /([0-9]+/ is not a valid regular expression"
+    );
+    expect(startRun).not.toHaveBeenCalled();
+  });
+});
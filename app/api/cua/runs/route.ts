@@ -0,0 +1,98 @@
+import { after, NextResponse } from "next/server";
+import { startRun } from "../agent/runner";
+import {
+  OutputSchema,
+  OutputSchemaError,
+  parseOutputSchema,
+} from "../agent/schema";
+import {
+  parseSettleStrategy,
+  SettleStrategy,
+  SettleStrategyError,
+} from "../agent/settle";
+import { getRunStore } from "../agent/store";
+
+function parsePositiveInt(value: unknown): number | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export async function GET() {
+  try {
+    const runs = await getRunStore().listRuns();
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Error listing runs:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to list runs" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { sessionId, userInput } = body;
+
+    if (!sessionId || !userInput) {
+      return NextResponse.json(
+        { error: "Missing sessionId or userInput in request body" },
+        { status: 400 }
+      );
+    }
+
+    const maxSteps = parsePositiveInt(body.maxSteps);
+    const maxDurationMs = parsePositiveInt(body.maxDurationMs);
+    if (maxSteps === null || maxDurationMs === null) {
+      return NextResponse.json(
+        { error: "maxSteps and maxDurationMs must be positive integers" },
+        { status: 400 }
+      );
+    }
+
+    let outputSchema: OutputSchema | undefined;
+    if (body.outputSchema !== undefined) {
+      try {
+        outputSchema = parseOutputSchema(body.outputSchema);
+      } catch (error) {
+        if (!(error instanceof OutputSchemaError)) throw error;
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    let settle: SettleStrategy | undefined;
+    if (body.settle !== undefined) {
+      try {
+        settle = parseSettleStrategy(body.settle);
+      } catch (error) {
+        if (!(error instanceof SettleStrategyError)) throw error;
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    const run = startRun({
+      sessionId,
+      userInput,
+      maxSteps,
+      maxDurationMs,
+      outputSchema,
+      settle,
+    });
+
+    // Keep the function alive until the run finishes when deployed serverless.
+    after(run.done);
+
+    return NextResponse.json(
+      { runId: run.id, status: run.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error in runs endpoint:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to start run" },
+      { status: 500 }
+    );
+  }
+}
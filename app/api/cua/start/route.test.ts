@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import { acquireComputer } from "../agent/pool";
+import { createProvider } from "../agent/providers";
+import {
+  assistantMessage,
+  computerCall,
+  FakeComputer,
+  ScriptedProvider,
+} from "../agent/testing";
+import { POST } from "./route";
+
+vi.mock("../agent/pool", () => ({
+  acquireComputer: vi.fn(),
+  releaseComputer: vi.fn(),
+}));
+vi.mock("../agent/providers", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agent/providers")>()),
+  createProvider: vi.fn(),
+}));
+
+describe("POST /api/cua/start", () => {
+  it("sends a blocked first action back with its policy message in one request", async () => {
+    const computer = new FakeComputer();
+    computer.passwordFieldFocused = true;
+    const provider = new ScriptedProvider([
+      [computerCall("call_1", { type: "type", text: "hunter2" })],
+      [assistantMessage("I can't type into the password field.")],
+    ]);
+    vi.mocked(acquireComputer).mockResolvedValue(computer);
+    vi.mocked(createProvider).mockReturnValue(provider);
+
+    const response = await POST(
+      new Request("http://localhost/api/cua/start", {
+        method: "POST",
+        body: JSON.stringify({ sessionId: "session-1", userInput: "Log in" }),
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(computer.actions).toEqual([]);
+    expect(provider.requests).toHaveLength(2);
+    const [output, message] = provider.requests[1].input as Record<string, unknown>[];
+    expect(output).toMatchObject({ type: "computer_call_output", call_id: "call_1" });
+    expect(message).toMatchObject({ role: "developer" });
+    expect(JSON.parse(message.content as string)).toMatchObject({
+      error: "policy_violation",
+      code: "password_typing_blocked",
+    });
+    expect(await response.json()).toEqual([
+      { output: [assistantMessage("I can't type into the password field.")], responseId: "resp_2" },
+    ]);
+  });
+});
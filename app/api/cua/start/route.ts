@@ -1,15 +1,19 @@
 import { NextResponse } from 'next/server';
-import { Agent } from '../agent/agent';
-import { BrowserbaseBrowser } from '../agent/browserbase';
-import { InputItem } from '../agent/types';
+import { Agent, isInputItem } from '../agent/agent';
+import { BasePlaywrightComputer } from '../agent/base_playwright';
+import { clearSessionPolicyEnforcer, getSessionPolicyEnforcer } from '../agent/policy';
+import { acquireComputer, releaseComputer } from '../agent/pool';
+import { getModelName } from '../agent/providers';
 
 export async function POST(request: Request) {
-  let computer: BrowserbaseBrowser | null = null;
+  let computer: BasePlaywrightComputer | null = null;
   let agent: Agent | null = null;
+  let sessionId: string | null = null;
 
   try {
     const body = await request.json();
-    const { sessionId, userInput } = body;
+    const { userInput } = body;
+    sessionId = body.sessionId;
 
     if (!sessionId || !userInput) {
       return NextResponse.json(
@@ -18,79 +22,39 @@ export async function POST(request: Request) {
       );
     }
 
-    computer = new BrowserbaseBrowser(1024, 768, false, sessionId);
-    agent = new Agent("computer-use-preview", computer);
+    computer = await acquireComputer(sessionId);
+    // A new task gets a fresh action budget, which the step calls that follow share
+    clearSessionPolicyEnforcer(sessionId);
+    agent = new Agent(getModelName(), computer, undefined, {
+      policyEnforcer: getSessionPolicyEnforcer(sessionId),
+    });
 
-    await computer.connect();
-
-    // Check if userInput contains a URL and navigate to it
-    const urlPattern = /(https?:\/\/[^\s]+)|(?:^|\s)([a-zA-Z0-9-]+\.(?:com|org|edu|gov|net|io|ai|app|dev|co|me|info|biz)\b)/;
-    const urlMatch = userInput.match(urlPattern);
-
-    const initialMessages: InputItem[] = [
-      {
-        role: "developer",
-        content:
-          "You are a helpful assistant that can use a web browser to accomplish tasks. Follow these important guidelines: 1) Always start by asking the user what they need to accomplish. 2) If a website you visited requires login, prioritize logging in first before attempting any other actions. 3) When navigating to websites, go directly to the specific URL instead of using search engines like Google whenever possible. 4) Be clear and concise in your communications with the user. 5) Ask for more context in the beginning before starting the task. 6) No need to ask the user for something trivial.",
-      },
-      {
-        role: "user",
-        content: urlMatch
-          ? "What page are we on? Can you take a screenshot to confirm?"
-          : userInput,
-      },
-    ];
+    // Opens the page the request names, if any, so the first step can act on it
+    const initialMessages = await agent.initialInput(userInput, request.signal);
 
     // Initialize the agent with the first step
-    let stepResult = await agent.getAction(initialMessages, undefined);
+    const stepResult = await agent.getAction(initialMessages, undefined, request.signal);
 
     if (stepResult.output.length > 0 && stepResult.output.find(item => item.type === "message")) {
       return NextResponse.json([stepResult]);
     }
     
-    const actions = await agent.takeAction(stepResult.output);
-
-    // This is a hack because function calling doesn't work if it's the first call made by the LLM.
-    if (urlMatch) {
-      let fakeAction;
-      let fakeStep;
-      let done = false;
-
-      do {
-        if (fakeStep) {
-          fakeAction = await agent.getAction(fakeStep.filter(item => item.type === "computer_call_output"), fakeAction!.responseId);
-        } else {
-          fakeAction = await agent.getAction(actions.filter(item => item.type === "computer_call_output"), stepResult.responseId);
-        }
-        stepResult = fakeAction;
-        if (fakeAction.output.length > 0 && fakeAction.output.find(item => item.type === "message") != null) {
-          done = true;
-        } else {
-          fakeStep = await agent.takeAction(fakeAction.output);
-        }
-      } while (!done);
-
-      stepResult = await agent.getAction([{
-        "role": "user",
-        "content": "Let's continue."
-      },{
-        "role": "user",
-        "content": userInput
-      }], stepResult.responseId);
-      return NextResponse.json([stepResult]);
-    }
+    const actions = await agent.takeAction(stepResult.output, request.signal);
 
     const nextStep = [];
 
     for (const action of actions) {
-      if ('type' in action && action.type === 'message') {
+      if (!isInputItem(action)) {
         nextStep.push({output: [action], responseId: stepResult.responseId});
-      } else {
-        const nextStepResult = await agent.getAction([action], stepResult.responseId);
-        nextStep.push(nextStepResult);
       }
     }
 
+    // The outputs of all calls, and any messages about them, go back in one request
+    const input = actions.filter(isInputItem);
+    if (input.length > 0) {
+      nextStep.push(await agent.getAction(input, stepResult.responseId, request.signal));
+    }
+
     return NextResponse.json(nextStep);
   } catch (error) {
     console.error('Error in cua endpoint:', error);
@@ -98,5 +62,9 @@ export async function POST(request: Request) {
       { success: false, error: 'Failed to process request' },
       { status: 500 }
     );
+  } finally {
+    if (computer && sessionId) {
+      releaseComputer(sessionId);
+    }
   }
 } 
\ No newline at end of file
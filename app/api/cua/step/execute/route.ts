@@ -1,14 +1,21 @@
 import { NextResponse } from 'next/server';
-import { Agent } from '../../agent/agent';
-import { BrowserbaseBrowser } from '../../agent/browserbase';
+import { Agent, SafetyCheckRejectedError } from '../../agent/agent';
+import { BasePlaywrightComputer } from '../../agent/base_playwright';
+import { getSessionPolicyEnforcer } from '../../agent/policy';
+import { acquireComputer, releaseComputer } from '../../agent/pool';
+import { getModelName } from '../../agent/providers';
 
 export async function POST(request: Request) {
-  let computer: BrowserbaseBrowser | null = null;
+  let computer: BasePlaywrightComputer | null = null;
   let agent: Agent | null = null;
+  let sessionId: string | null = null;
 
   try {
     const body = await request.json();
-    const { sessionId, output } = body;
+    const { output } = body;
+    sessionId = body.sessionId;
+    // IDs of the pending safety checks the user approved; anything else is rejected
+    const acknowledgedSafetyChecks: string[] = body.acknowledgedSafetyChecks ?? [];
 
     if (!sessionId) {
       return NextResponse.json(
@@ -17,19 +24,32 @@ export async function POST(request: Request) {
       );
     }
 
-    computer = new BrowserbaseBrowser(1024, 768, false, sessionId);
-    agent = new Agent("computer-use-preview", computer);
-
-    await computer.connect();
+    computer = await acquireComputer(sessionId);
+    agent = new Agent(
+      getModelName(),
+      computer,
+      (_message, check) => acknowledgedSafetyChecks.includes(check.id),
+      { policyEnforcer: getSessionPolicyEnforcer(sessionId) }
+    );
 
-    const result = await agent.takeAction(output.output);
+    const result = await agent.takeAction(output.output, request.signal);
 
     return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof SafetyCheckRejectedError) {
+      return NextResponse.json(
+        { success: false, error: error.message, safetyCheck: error.check },
+        { status: 409 }
+      );
+    }
     console.error('Error in execute endpoint:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to process request' },
       { status: 500 }
     );
+  } finally {
+    if (computer && sessionId) {
+      releaseComputer(sessionId);
+    }
   }
 }
@@ -1,15 +1,24 @@
 import { NextResponse } from "next/server";
-import { Agent } from "../../agent/agent";
-import { BrowserbaseBrowser } from "../../agent/browserbase";
+import { Agent, isInputItem } from "../../agent/agent";
+import { BasePlaywrightComputer } from "../../agent/base_playwright";
+import { getSessionPolicyEnforcer } from "../../agent/policy";
+import { acquireComputer, releaseComputer } from "../../agent/pool";
+import { getModelName } from "../../agent/providers";
 import { ComputerToolCall } from "../../agent/types";
 
+// How often to ask again when the model only returns reasoning, before giving its
+// output back as it is
+const MAX_CONTINUE_PROMPTS = 3;
+
 export async function POST(request: Request) {
-  let computer: BrowserbaseBrowser | null = null;
+  let computer: BasePlaywrightComputer | null = null;
   let agent: Agent | null = null;
+  let sessionId: string | null = null;
 
   try {
     const body = await request.json();
-    const { sessionId, responseId, input } = body;
+    const { responseId, input } = body;
+    sessionId = body.sessionId;
 
     if (!sessionId) {
       return NextResponse.json(
@@ -18,10 +27,12 @@ export async function POST(request: Request) {
       );
     }
 
-    computer = new BrowserbaseBrowser(1024, 768, false, sessionId);
-    agent = new Agent("computer-use-preview", computer);
+    computer = await acquireComputer(sessionId);
+    agent = new Agent(getModelName(), computer, undefined, {
+      policyEnforcer: getSessionPolicyEnforcer(sessionId),
+    });
 
-    let result = await agent.getAction(input, responseId);
+    let result = await agent.getAction(input, responseId, request.signal);
 
     // If there's a screenshot returned, just handle it right here so we don't have to make a round trip.
     if (result.output.find((item) => item.type === "computer_call")) {
@@ -29,32 +40,36 @@ export async function POST(request: Request) {
         (item) => item.type === "computer_call"
       ) as ComputerToolCall;
       if (computerCall.action.type === "screenshot") {
-        await computer.connect();
-
-        const screenshotAction = await agent.takeAction(result.output);
+        const screenshotAction = await agent.takeAction(
+          result.output,
+          request.signal
+        );
         result = await agent.getAction(
-          screenshotAction.filter((item) => item.type != "message"),
-          result.responseId
+          screenshotAction.filter(isInputItem),
+          result.responseId,
+          request.signal
         );
       }
     }
 
     // If the generated action is only reasoning, let's request a real action.
-    if (
+    for (
+      let prompts = 0;
+      prompts < MAX_CONTINUE_PROMPTS &&
       result.output.length == 1 &&
-      result.output.find((item) => item.type === "reasoning")
+      result.output.find((item) => item.type === "reasoning");
+      prompts++
     ) {
-      do {
-        result = await agent.getAction(
-          [
-            {
+      result = await agent.getAction(
+        [
+          {
             role: "user",
             content: "Please continue with the task.",
           },
         ],
-          result.responseId
-        );
-      } while (result.output.length == 1 && result.output.find((item) => item.type === "reasoning"));
+        result.responseId,
+        request.signal
+      );
     }
 
     return NextResponse.json([result]);
@@ -64,5 +79,9 @@ export async function POST(request: Request) {
       { success: false, error: "Failed to process request" },
       { status: 500 }
     );
+  } finally {
+    if (computer && sessionId) {
+      releaseComputer(sessionId);
+    }
   }
 }
@@ -0,0 +1,63 @@
+import Browserbase from "@browserbasehq/sdk";
+import { describe, expect, it, vi } from "vitest";
+import { GET, POST } from "./route";
+
+const debug = vi.hoisted(() => vi.fn());
+
+vi.mock("@browserbasehq/sdk", async (importOriginal) => {
+  const { default: Original } =
+    await importOriginal<typeof import("@browserbasehq/sdk")>();
+  class Browserbase {
+    static NotFoundError = Original.NotFoundError;
+    sessions = { debug };
+  }
+  return { default: Browserbase };
+});
+
+function params(sessionId: string) {
+  return { params: Promise.resolve({ sessionId }) };
+}
+
+function request(body?: unknown) {
+  return new Request("http://localhost/api/session/pages", {
+    method: body === undefined ? "GET" : "POST",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe("/api/session/[sessionId]/pages", () => {
+  it("returns 404 for an unknown local session", async () => {
+    const response = await GET(request(), params("local-missing"));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 404 when Browserbase does not know the session", async () => {
+    debug.mockRejectedValueOnce(
+      new Browserbase.NotFoundError(404, undefined, "Not found", {})
+    );
+
+    const response = await POST(request({ pageId: "page-1" }), params("bb-1"));
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("Session not found");
+  });
+
+  it("returns 502 when Browserbase cannot be reached", async () => {
+    debug.mockRejectedValueOnce(new Error("fetch failed"));
+
+    const response = await GET(request(), params("bb-1"));
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toBe("Failed to list pages");
+  });
+
+  it("lists the pages of a Browserbase session", async () => {
+    debug.mockResolvedValueOnce({ pages: [{ id: "page-1" }] });
+
+    const response = await GET(request(), params("bb-1"));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).pages).toEqual([{ id: "page-1" }]);
+  });
+});
@@ -1,12 +1,31 @@
 import Browserbase from "@browserbasehq/sdk";
 import { NextResponse } from "next/server";
+import {
+  getLocalPages,
+  getLocalSession,
+  isLocalSessionId,
+} from "../../../cua/agent/local";
+import { getActiveTabId, setActiveTabId } from "../../../cua/agent/tabs";
 
+/**
+ * The open pages of a session, or null when the backend does not know the
+ * session. Other failures, such as Browserbase being unreachable, are thrown.
+ */
 async function getOpenPages(sessionId: string) {
+  if (isLocalSessionId(sessionId)) {
+    if (!getLocalSession(sessionId)) return null;
+    return getLocalPages(sessionId);
+  }
   const bb = new Browserbase({
     apiKey: process.env.BROWSERBASE_API_KEY!,
   });
-  const debug = await bb.sessions.debug(sessionId);
-  return debug.pages;
+  try {
+    const debug = await bb.sessions.debug(sessionId);
+    return debug.pages;
+  } catch (error) {
+    if (error instanceof Browserbase.NotFoundError) return null;
+    throw error;
+  }
 }
 
 export async function GET(
@@ -14,6 +33,50 @@ export async function GET(
   { params }: { params: Promise<{ sessionId: string }> }
 ) {
   const { sessionId } = await params;
-  const pages = await getOpenPages(sessionId);
-  return NextResponse.json({ pages });
+  let pages: Awaited<ReturnType<typeof getOpenPages>>;
+  try {
+    pages = await getOpenPages(sessionId);
+  } catch (error) {
+    console.error("Error listing pages:", error);
+    return NextResponse.json({ error: "Failed to list pages" }, { status: 502 });
+  }
+  if (!pages) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  return NextResponse.json({ pages, activePageId: getActiveTabId(sessionId) });
+}
+
+/**
+ * Make a page the active tab, so the agent's next action goes to the tab the user
+ * is looking at.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params;
+  const body = (await request.json().catch(() => null)) ?? {};
+  if (typeof body.pageId !== "string") {
+    return NextResponse.json(
+      { error: "Missing pageId in request body" },
+      { status: 400 }
+    );
+  }
+
+  let pages: Awaited<ReturnType<typeof getOpenPages>>;
+  try {
+    pages = await getOpenPages(sessionId);
+  } catch (error) {
+    console.error("Error listing pages:", error);
+    return NextResponse.json({ error: "Failed to list pages" }, { status: 502 });
+  }
+  if (!pages) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  if (!pages.some((page) => page.id === body.pageId)) {
+    return NextResponse.json({ error: "Page not found" }, { status: 404 });
+  }
+
+  setActiveTabId(sessionId, body.pageId);
+  return NextResponse.json({ success: true, activePageId: body.pageId });
 }
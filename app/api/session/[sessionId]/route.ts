@@ -0,0 +1,74 @@
+import Browserbase from "@browserbasehq/sdk";
+import { NextResponse } from "next/server";
+import { getLocalSession, isLocalSessionId } from "../../cua/agent/local";
+import { endSession } from "../../cua/agent/pool";
+import { describeSession, getSessionRecord } from "../../cua/agent/sessions";
+
+/**
+ * Status and metadata of a session. Sessions this server did not create (or no
+ * longer remembers) fall back to what the backend reports.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params;
+
+  const record = getSessionRecord(sessionId);
+  if (record) {
+    return NextResponse.json({ session: describeSession(record) });
+  }
+
+  if (isLocalSessionId(sessionId)) {
+    const local = getLocalSession(sessionId);
+    if (!local) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    return NextResponse.json({
+      session: {
+        id: sessionId,
+        backend: "local",
+        owner: null,
+        status: "active",
+        createdAt: local.createdAt,
+      },
+    });
+  }
+
+  try {
+    const bb = new Browserbase({
+      apiKey: process.env.BROWSERBASE_API_KEY!,
+    });
+    const session = await bb.sessions.retrieve(sessionId);
+    return NextResponse.json({
+      session: {
+        id: sessionId,
+        backend: "browserbase",
+        owner: null,
+        status: session.status === "RUNNING" ? "active" : "ended",
+        createdAt: Date.parse(session.createdAt),
+        browserbaseStatus: session.status,
+      },
+    });
+  } catch (error) {
+    console.error("Error retrieving session:", error);
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params;
+  try {
+    await endSession(sessionId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error ending session:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to end session" },
+      { status: 500 }
+    );
+  }
+}
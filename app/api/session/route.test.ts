@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { acquireSession } from "../cua/agent/pool";
+import { POST } from "./route";
+
+vi.mock("../cua/agent/pool", () => ({
+  acquireSession: vi.fn(),
+  endSession: vi.fn(),
+}));
+
+function post(body: string) {
+  return POST(
+    new Request("http://localhost/api/session", { method: "POST", body })
+  );
+}
+
+describe("POST /api/session", () => {
+  beforeEach(() => {
+    vi.mocked(acquireSession).mockResolvedValue({
+      id: "local-1",
+      sessionUrl: null,
+      connectUrl: null,
+    } as unknown as Awaited<ReturnType<typeof acquireSession>>);
+  });
+
+  it("rejects an unknown backend and names the valid ones", async () => {
+    const response = await post(JSON.stringify({ backend: "firefox" }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe(
+      'Unknown browser backend "firefox". Expected one of: browserbase, local'
+    );
+    expect(acquireSession).not.toHaveBeenCalled();
+  });
+
+  it("treats a null body as an empty one", async () => {
+    vi.stubEnv("BROWSER_BACKEND", "local");
+
+    const response = await post("null");
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(acquireSession).mock.calls[0][0]).toBe("local");
+    vi.unstubAllEnvs();
+  });
+});
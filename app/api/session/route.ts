@@ -1,63 +1,48 @@
 import { NextResponse } from "next/server";
-import Browserbase from "@browserbasehq/sdk";
-import { chromium } from "playwright-core";
+import { resolveBackend } from "../cua/agent/computer";
+import { acquireSession, endSession } from "../cua/agent/pool";
+import { describeSession, listActiveSessions } from "../cua/agent/sessions";
+import {
+  parseSessionSettings,
+  SessionSettingsError,
+} from "../cua/agent/settings";
+import { VaultError } from "../cua/agent/vault";
 
-async function createSession() {
-  const bb = new Browserbase({
-    apiKey: process.env.BROWSERBASE_API_KEY!,
-  });
-
-  const browserSettings = {
-    viewport: {
-      width: 1024,
-      height: 768,
-    },
-    blockAds: true,
-  };
-  const session = await bb.sessions.create({
-    projectId: process.env.BROWSERBASE_PROJECT_ID!,
-    browserSettings,
-    keepAlive: true,
-    region: "ap-southeast-1",
-  });
-  return {
-    session
-  };
-}
-
-async function endSession(sessionId: string) {
-  const bb = new Browserbase({
-    apiKey: process.env.BROWSERBASE_API_KEY!,
-  });
-  await bb.sessions.update(sessionId, {
-    projectId: process.env.BROWSERBASE_PROJECT_ID!,
-    status: "REQUEST_RELEASE",
-  });
-}
-
-async function getDebugUrl(sessionId: string) {
-  const bb = new Browserbase({
-    apiKey: process.env.BROWSERBASE_API_KEY!,
-  });
-  const session = await bb.sessions.debug(sessionId);
-  return session.debuggerFullscreenUrl;
+/**
+ * List active sessions with their owner and age, optionally filtered by `?owner=`.
+ */
+export async function GET(request: Request) {
+  const owner = new URL(request.url).searchParams.get("owner");
+  const sessions = listActiveSessions(owner).map(describeSession);
+  return NextResponse.json({ sessions });
 }
 
 export async function POST(request: Request) {
   try {
-    const { session } = await createSession();
-    const browser = await chromium.connectOverCDP(session.connectUrl);
-    const defaultContext = browser.contexts()[0];
-    const page = defaultContext.pages()[0];
-    await page.goto("https://www.google.com", { waitUntil: "domcontentloaded" });
-    const liveUrl = await getDebugUrl(session.id);
+    // A JSON `null` body parses fine but has no fields
+    const body = (await request.json().catch(() => null)) ?? {};
+    const backend = resolveBackend(body.backend);
+    const owner = typeof body.owner === "string" ? body.owner : null;
+    // The chat UI sends the user's timezone at the top level
+    const settings = parseSessionSettings(
+      body.settings ?? (body.timezone ? { timezone: body.timezone } : undefined)
+    );
+
+    // Taken from the warm pool when available, already connected
+    const session = await acquireSession(backend, owner, settings);
     return NextResponse.json({
       success: true,
       sessionId: session.id,
-      sessionUrl: liveUrl,
-      connectUrl: session.connectUrl
+      sessionUrl: session.sessionUrl,
+      connectUrl: session.connectUrl,
     });
   } catch (error) {
+    if (error instanceof SessionSettingsError || error instanceof VaultError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
     console.error("Error creating session:", error);
     return NextResponse.json(
       { success: false, error: "Failed to create session" },
@@ -67,8 +52,23 @@ export async function POST(request: Request) {
 }
 
 export async function DELETE(request: Request) {
-  const body = await request.json();
-  const sessionId = body.sessionId as string;
-  await endSession(sessionId);
-  return NextResponse.json({ success: true });
+  const body = await request.json().catch(() => null);
+  const sessionId = body?.sessionId;
+  if (typeof sessionId !== "string" || !sessionId) {
+    return NextResponse.json(
+      { success: false, error: "Missing sessionId in request body" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await endSession(sessionId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error ending session:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to end session" },
+      { status: 500 }
+    );
+  }
 }
@@ -13,6 +13,12 @@ interface BrowserSessionContainerProps {
   sessionTime?: number;
   onStop?: () => void;
   onRestart?: () => void;
+  isPaused?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
+  onTakeOver?: () => void;
+  /** Let the user control the browser through the live view, during a takeover. */
+  isInteractive?: boolean;
 }
 
 const containerVariants = {
@@ -106,6 +112,11 @@ const BrowserSessionContainer: React.FC<BrowserSessionContainerProps> = ({
   sessionTime = 0,
   onStop = () => {},
   onRestart = () => {},
+  isPaused = false,
+  onPause,
+  onResume,
+  onTakeOver,
+  isInteractive = false,
 }) => {
   // Track the animation state of curtains
   const [curtainState, setCurtainState] = useState<
@@ -152,7 +163,9 @@ const BrowserSessionContainer: React.FC<BrowserSessionContainerProps> = ({
         >
           {/* Browser frame */}
           <div
-            className="w-full h-[250px] md:h-[600px] flex items-center justify-center overflow-hidden border border-[#CAC8C7] shadow-sm relative"
+            className={`w-full h-[250px] md:h-[600px] flex items-center justify-center overflow-hidden border shadow-sm relative ${
+              isInteractive ? "border-[#FF3B00]" : "border-[#CAC8C7]"
+            }`}
             style={{
               backgroundColor: "rgba(245, 240, 255, 0.75)",
               backdropFilter: "blur(8px)",
@@ -192,7 +205,9 @@ const BrowserSessionContainer: React.FC<BrowserSessionContainerProps> = ({
               sessionUrl ? (
                 <iframe
                   src={sessionUrl}
-                  className="w-full h-full border-none"
+                  className={`w-full h-full border-none ${
+                    isInteractive ? "" : "pointer-events-none"
+                  }`}
                   sandbox="allow-same-origin allow-scripts allow-forms"
                   allow="clipboard-read; clipboard-write"
                   loading="lazy"
@@ -306,7 +321,14 @@ const BrowserSessionContainer: React.FC<BrowserSessionContainerProps> = ({
                   damping: 25,
                 }}
               >
-                <SessionControls sessionTime={sessionTime} onStop={onStop} />
+                <SessionControls
+                  sessionTime={sessionTime}
+                  onStop={onStop}
+                  isPaused={isPaused}
+                  onPause={onPause}
+                  onResume={onResume}
+                  onTakeOver={onTakeOver}
+                />
               </motion.div>
             )}
           </div>
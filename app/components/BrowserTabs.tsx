@@ -1,10 +1,15 @@
 import { cn } from "@/lib/utils";
 import { SessionLiveURLs } from "@browserbasehq/sdk/resources/index.mjs";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 let abortController: AbortController | null = null;
 let errors = 0;
-async function getPages(sessionId: string) {
+type PagesResult = {
+  pages: SessionLiveURLs.Page[];
+  activePageId: string | null;
+};
+
+async function getPages(sessionId: string): Promise<PagesResult> {
   try {
     // abort any previous requests
     if (abortController) {
@@ -21,23 +26,36 @@ async function getPages(sessionId: string) {
       if (errors > 3) {
         throw new Error("Failed to fetch pages");
       }
-      return [];
+      return { pages: [], activePageId: null };
     }
 
     const data = await res.json();
     errors = 0;
-    return data.pages;
+    return { pages: data.pages, activePageId: data.activePageId ?? null };
   } catch (error: unknown) {
     // abort error is expected when the request is aborted
     if (
       (error instanceof Error && error.name === "AbortError") ||
       error === "Aborted previous request"
     ) {
-      return [];
+      return { pages: [], activePageId: null };
     }
 
     console.error("Error fetching pages:", error);
-    return [];
+    return { pages: [], activePageId: null };
+  }
+}
+
+// Tell the server which tab the user picked, so the agent acts on it next
+async function selectPage(sessionId: string, pageId: string) {
+  try {
+    await fetch(`/api/session/${sessionId}/pages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ pageId }),
+    });
+  } catch (error) {
+    console.error("Error selecting page:", error);
   }
 }
 
@@ -53,12 +71,21 @@ export default function BrowserTabs({
   setActivePage: (page: SessionLiveURLs.Page) => void;
 }) {
   const [pages, setPages] = useState<SessionLiveURLs.Page[]>([]);
+  const serverActivePageIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     const refetchPages = async () => {
-      const p = await getPages(sessionId);
-      // when a new page is added, set the active page to the last page
-      if (p.length > pages.length) {
+      const { pages: p, activePageId } = await getPages(sessionId);
+      const serverActivePage = p.find((page) => page.id === activePageId);
+
+      if (serverActivePage) {
+        // follow the agent when it switches tabs
+        if (activePageId !== serverActivePageIdRef.current) {
+          setActivePage(serverActivePage);
+        }
+        serverActivePageIdRef.current = activePageId;
+      } else if (p.length > pages.length) {
+        // when a new page is added, set the active page to the last page
         setActivePage(p[p.length - 1]);
       }
 
@@ -100,7 +127,11 @@ export default function BrowserTabs({
         {pages.map((page) => (
           <div
             key={page.id}
-            onClick={() => setActivePage(page)}
+            onClick={() => {
+              setActivePage(page);
+              serverActivePageIdRef.current = page.id;
+              selectPage(sessionId, page.id);
+            }}
             className={cn(
               "bg-[rgb(248,248,255)] rounded-[2px] text-gray-500 border border-[rgb(245,235,255)] text-sm flex gap-x-1 py-1 px-1.5 max-w-[300px] cursor-pointer hover:border-gray-400",
               {
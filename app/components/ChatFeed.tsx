@@ -5,12 +5,9 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import React from "react";
 import { useWindowSize } from "usehooks-ts";
 import Image from "next/image";
-import {
-  FunctionOutput,
-  Item,
-  ComputerCallOutput,
-  OutputText,
-} from "../api/cua/agent/types";
+import { Item, OutputText, SafetyCheck } from "../api/cua/agent/types";
+import type { RunEvent } from "../api/cua/agent/runner";
+import type { OutputSchema } from "../api/cua/agent/schema";
 // import { SlidingNumber } from "../components/ui/sliding-number";
 import { Layers, Pin } from "lucide-react";
 import { SessionControls } from "./SessionControls";
@@ -22,6 +19,8 @@ interface ChatFeedProps {
   initialMessage?: string;
   onClose: () => void;
   url?: string;
+  /** Ask for a structured answer matching this schema, shown as the result. */
+  outputSchema?: OutputSchema;
 }
 
 export interface BrowserStep {
@@ -43,7 +42,8 @@ export interface BrowserStep {
     | "DOUBLECLICK"
     | "DRAG"
     | "SCREENSHOT"
-    | "MOVE";
+    | "MOVE"
+    | "RESULT";
   instruction: string;
   stepNumber?: number;
   messageId?: string;
@@ -171,6 +171,7 @@ const generateDetailedReasoning = (
 export default function LegacyChatFeed({
   initialMessage,
   onClose,
+  outputSchema,
 }: ChatFeedProps) {
   const [activePage, setActivePage] = useState<SessionLiveURLs.Page | null>(
     null
@@ -193,6 +194,9 @@ export default function LegacyChatFeed({
     steps: [],
     isLoading: false,
   });
+  const runIdRef = useRef<string | null>(null);
+  const lastEventSeqRef = useRef(0);
+  const eventSourceRef = useRef<EventSource | null>(null);
 
   const [uiState, setUiState] = useState<{
     sessionId: string | null;
@@ -218,6 +222,13 @@ export default function LegacyChatFeed({
 
   const [userInput, setUserInput] = useState("");
   const [isWaitingForInput, setIsWaitingForInput] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isTakenOver, setIsTakenOver] = useState(false);
+  const [handBackNote, setHandBackNote] = useState("");
+  // Pausing and taking over only apply while the run is going or paused
+  const canControlRun = !isWaitingForInput && !isTakenOver;
+  const [pendingSafetyCheck, setPendingSafetyCheck] =
+    useState<SafetyCheck | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = useCallback(() => {
@@ -296,16 +307,23 @@ export default function LegacyChatFeed({
         uiState.sessionId
       );
 
-      // Set a flag to prevent further API calls
-      const abortController = new AbortController();
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const signal = abortController.signal;
-
-      // Cancel any pending requests
-      abortController.abort();
+      // Stop following the run
+      eventSourceRef.current?.close();
+      setIsPaused(false);
+      setIsTakenOver(false);
+
+      // Cancel the run so its in-flight model and browser calls are aborted
+      // before the browser goes away
+      const runId = runIdRef.current;
+      const cancelled = runId
+        ? fetch(`/api/cua/runs/${runId}/cancel`, { method: "POST" }).catch(
+            (error) => {
+              console.log("Error cancelling run (can be ignored):", error);
+            }
+          )
+        : Promise.resolve();
 
-      // Wait a short delay to allow any in-progress operations to complete
-      setTimeout(() => {
+      cancelled.then(() => {
         fetch("/api/session", {
           method: "DELETE",
           headers: {
@@ -321,7 +339,7 @@ export default function LegacyChatFeed({
             error
           );
         });
-      }, 500);
+      });
     }
   }, [isAgentFinished, uiState.sessionId]);
 
@@ -329,61 +347,16 @@ export default function LegacyChatFeed({
     scrollToBottom();
   }, [uiState.steps, scrollToBottom]);
 
-  // Add a new function to process a single step
+  // Turn model output items streamed from the run into chat steps
   const processStep = useCallback(
-    async (
-      stepData: {
-        output: Item[];
-        responseId: string;
-      }[],
-      sessionId?: string,
-      stepNumber = 1
-    ) => {
-      // Ensure stepData is an array before using array methods
-      if (!Array.isArray(stepData)) {
-        console.error("stepData is not an array:", stepData);
-        // Add an error message to the UI
-        const errorStep: BrowserStep = {
-          text: `There was an error processing the request. Please try again.`,
-          reasoning: `API returned invalid data: ${JSON.stringify(stepData)}`,
-          tool: "MESSAGE",
-          instruction: "",
-          stepNumber: stepNumber++,
-        };
-
-        agentStateRef.current = {
-          ...agentStateRef.current,
-          steps: [...agentStateRef.current.steps, errorStep],
-          isLoading: false,
-        };
+    (output: Item[]) => {
+      let stepNumber = agentStateRef.current.steps.length + 1;
 
-        setUiState((prev) => ({
-          ...prev,
-          steps: agentStateRef.current.steps,
-          isLoading: false,
-        }));
-
-        setIsWaitingForInput(true);
-        return;
-      }
-
-      const hasMessage = stepData.find((step) =>
-        step.output.find((item) => item.type === "message")
-      );
-      const hasComputerCall = stepData.find((step) =>
-        step.output.find((item) => item.type === "computer_call")
-      );
-      const hasFunctionCall = stepData.find((step) =>
-        step.output.find((item) => item.type === "function_call")
-      );
-
-      const messageItem = hasMessage?.output.find(
-        (item) => item.type === "message"
-      );
-      const computerItem = hasComputerCall?.output.find(
+      const messageItem = output.find((item) => item.type === "message");
+      const computerItem = output.find(
         (item) => item.type === "computer_call"
       );
-      const functionItem = hasFunctionCall?.output.find(
+      const functionItem = output.find(
         (item) => item.type === "function_call"
       );
 
@@ -630,8 +603,8 @@ export default function LegacyChatFeed({
       };
 
       if (
-        !hasComputerCall &&
-        !hasFunctionCall &&
+        !computerItem &&
+        !functionItem &&
         messageItem &&
         messageItem.type === "message" &&
         messageItem.content[0].type === "output_text"
@@ -662,16 +635,6 @@ export default function LegacyChatFeed({
             steps: agentStateRef.current.steps,
           }));
         }
-
-        setIsWaitingForInput(true);
-        currentResponseRef.current = {
-          id: stepData[0].responseId,
-        };
-
-        // Focus the input when it becomes visible
-        if (inputRef.current) {
-          inputRef.current.focus();
-        }
       } else if (computerItem || functionItem) {
         if (
           messageItem &&
@@ -873,96 +836,248 @@ export default function LegacyChatFeed({
           ...prev,
           steps: agentStateRef.current.steps,
         }));
+      }
+    },
+    []
+  );
 
-        // Handle computer call
-        const computerCallResponse = await fetch("/api/cua/step/execute", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            sessionId,
-            output: hasComputerCall ?? hasFunctionCall,
-          }),
-        });
+  // Append a message step explaining why the agent stopped
+  const addErrorStep = useCallback((text: string, reasoning: string) => {
+    const errorStep: BrowserStep = {
+      text,
+      reasoning,
+      tool: "MESSAGE",
+      instruction: "",
+      stepNumber: agentStateRef.current.steps.length + 1,
+    };
+
+    agentStateRef.current = {
+      ...agentStateRef.current,
+      steps: [...agentStateRef.current.steps, errorStep],
+    };
+
+    setUiState((prev) => ({
+      ...prev,
+      steps: agentStateRef.current.steps,
+    }));
+  }, []);
+
+  // Show the structured result in place of the raw JSON answer it was parsed from
+  const showResult = useCallback((result: unknown) => {
+    const steps = agentStateRef.current.steps;
+    const lastStep = steps[steps.length - 1];
+    const replacesAnswer =
+      lastStep?.tool === "MESSAGE" && lastStep.reasoning === "Processing message";
+
+    const resultStep: BrowserStep = {
+      text: JSON.stringify(result, null, 2),
+      reasoning: "Structured result",
+      tool: "RESULT",
+      instruction: "",
+      stepNumber: replacesAnswer ? lastStep.stepNumber : steps.length + 1,
+      messageId: replacesAnswer ? lastStep.messageId : undefined,
+    };
+
+    agentStateRef.current = {
+      ...agentStateRef.current,
+      steps: [...(replacesAnswer ? steps.slice(0, -1) : steps), resultStep],
+    };
+
+    setUiState((prev) => ({
+      ...prev,
+      steps: agentStateRef.current.steps,
+    }));
+  }, []);
+
+  // Follow the run's event stream until the run stops
+  const subscribeToRun = useCallback(
+    (runId: string) => {
+      eventSourceRef.current?.close();
+
+      // Resume after the last event we saw so nothing is shown twice
+      const eventSource = new EventSource(
+        `/api/cua/runs/${runId}/events?after=${lastEventSeqRef.current}`
+      );
+      eventSourceRef.current = eventSource;
+
+      eventSource.onmessage = (e) => {
+        const event: RunEvent = JSON.parse(e.data);
+        lastEventSeqRef.current = event.seq;
+
+        if (event.type === "item") {
+          processStep([event.item]);
+        } else if (event.type === "safety_check") {
+          setPendingSafetyCheck(event.check);
+        } else if (event.type === "result") {
+          showResult(event.result);
+        } else if (event.type === "status" && event.status === "running") {
+          setPendingSafetyCheck(null);
+        } else if (event.type === "status" && event.status === "paused") {
+          // The run picks up where it left off on resume, which streams again
+          eventSource.close();
+          setIsPaused(true);
+        } else if (event.type === "status" && event.status === "taken_over") {
+          // The user has the browser until they hand it back
+          eventSource.close();
+          setIsPaused(false);
+          setIsTakenOver(true);
+        } else if (
+          event.type === "status" &&
+          event.status !== "awaiting_approval"
+        ) {
+          eventSource.close();
+          setPendingSafetyCheck(null);
 
-        const computerCallData: (
-          | Message
-          | FunctionOutput
-          | ComputerCallOutput
-        )[] = await computerCallResponse.json();
+          if (event.status === "rejected") {
+            addErrorStep(
+              "The action was not approved, so the task was stopped.",
+              event.error ?? "Safety check rejected"
+            );
+          } else if (
+            event.status !== "completed" &&
+            event.status !== "cancelled"
+          ) {
+            addErrorStep(
+              "Sorry, the task stopped before it could finish. Please try again.",
+              event.error ?? `Run ended with status ${event.status}`
+            );
+          }
+
+          setIsWaitingForInput(true);
+        }
+      };
 
-        const nextStepResponse = await fetch("/api/cua/step/generate", {
+      eventSource.onerror = () => {
+        // EventSource reconnects on its own unless the stream was closed for good
+        if (eventSource.readyState === EventSource.CLOSED) {
+          console.error("Run event stream closed unexpectedly");
+          setIsWaitingForInput(true);
+        }
+      };
+    },
+    [processStep, addErrorStep, showResult]
+  );
+
+  // Approve or reject the safety check the run is paused on
+  const handleSafetyCheck = useCallback(
+    async (check: SafetyCheck, approved: boolean) => {
+      const runId = runIdRef.current;
+      if (!runId) return;
+
+      setPendingSafetyCheck(null);
+
+      try {
+        const response = await fetch(`/api/cua/runs/${runId}/safety-checks`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({
-            sessionId,
-            input: computerCallData,
-            responseId: stepData[0]?.responseId || null,
-          }),
+          body: JSON.stringify({ checkId: check.id, approved }),
         });
 
-        // abort here if generate fails
-        if (!nextStepResponse.ok) {
-          console.error("API error:", nextStepResponse);
-          return;
+        if (!response.ok) {
+          throw new Error(`API error: ${response.status}`);
         }
+      } catch (error) {
+        console.error("Error resolving safety check:", error);
+        setPendingSafetyCheck(check);
+      }
+    },
+    []
+  );
 
-        const responseData = await nextStepResponse.json();
+  // Ask the run to pause after its current step; the "paused" event confirms it
+  const handlePause = useCallback(async () => {
+    const runId = runIdRef.current;
+    if (!runId) return;
 
-        // Log error if we got an invalid response
-        if (!Array.isArray(responseData)) {
-          console.error("API returned non-array data:", responseData);
-        }
+    try {
+      const response = await fetch(`/api/cua/runs/${runId}/pause`, {
+        method: "POST",
+      });
 
-        // Ensure nextStepData is always an array
-        const nextStepData = Array.isArray(responseData) ? responseData : [];
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error pausing run:", error);
+    }
+  }, []);
 
-        // Handle reasoning-only responses by adding a message item if needed
-        if (
-          nextStepData[0]?.output?.length === 1 &&
-          nextStepData[0]?.output[0]?.type === "reasoning"
-        ) {
-          console.log("Detected reasoning-only response, adding message item");
-          // Add a message item to ensure the reasoning is followed by another item
-          nextStepData[0].output.push({
-            id: `msg_fallback_${nextStepData[0]?.responseId || "default"}`,
-            type: "message",
-            role: "assistant",
-            content: [
-              {
-                type: "output_text",
-                text: "I'll continue with the task.",
-                annotations: [],
-              },
-            ],
-          });
-        }
+  // Let a paused run continue and follow its events again
+  const handleResume = useCallback(async () => {
+    const runId = runIdRef.current;
+    if (!runId) return;
 
-        currentResponseRef.current = {
-          id: nextStepData[0]?.responseId || null,
-        };
+    try {
+      const response = await fetch(`/api/cua/runs/${runId}/resume`, {
+        method: "POST",
+      });
 
-        // Process the next step recursively - ensure nextStepData is an array first
-        if (Array.isArray(nextStepData)) {
-          return processStep(nextStepData, sessionId, stepNumber);
-        } else {
-          console.error("stepData is not an array:", nextStepData);
-          // Return gracefully instead of causing an error
-          return;
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      setIsPaused(false);
+      subscribeToRun(runId);
+    } catch (error) {
+      console.error("Error resuming run:", error);
+    }
+  }, [subscribeToRun]);
+
+  // Hand the browser to the user once the run finishes its current step
+  const handleTakeOver = useCallback(async () => {
+    const runId = runIdRef.current;
+    if (!runId) return;
+
+    try {
+      const response = await fetch(`/api/cua/runs/${runId}/takeover`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error taking over run:", error);
+    }
+  }, []);
+
+  // Give the browser back to the agent, which gets a fresh screenshot and the note
+  const handleHandBack = useCallback(
+    async (note: string) => {
+      const runId = runIdRef.current;
+      if (!runId) return;
+
+      try {
+        const response = await fetch(`/api/cua/runs/${runId}/handback`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ note }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`API error: ${response.status}`);
         }
-      } else {
-        console.log("No message or computer call output");
-        console.log("messageItem", messageItem);
-        console.log("computerItem", computerItem);
+
+        setIsTakenOver(false);
+        setHandBackNote("");
+        subscribeToRun(runId);
+      } catch (error) {
+        console.error("Error handing back run:", error);
       }
     },
-    []
+    [subscribeToRun]
   );
 
-  // Update the handleUserInput function
+  // Close the event stream when the chat is closed
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  // Send a follow-up message to the run and resume streaming
   const handleUserInput = useCallback(
     async (input: string) => {
       if (!input.trim()) return;
@@ -991,185 +1106,49 @@ export default function LegacyChatFeed({
       setUserInput("");
 
       try {
-        // Continue the conversation
-        const nextStepResponse = await fetch("/api/cua/step/generate", {
-          // Add retry logic for API errors
-          signal: AbortSignal.timeout(15000), // 15 second timeout
+        const runId = runIdRef.current;
+        if (!runId) {
+          throw new Error("No run in progress");
+        }
+
+        const inputResponse = await fetch(`/api/cua/runs/${runId}/input`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({
-            sessionId: agentStateRef.current.sessionId,
-            responseId: currentResponseRef.current?.id,
-            input: [
-              {
-                role: "user",
-                content: input,
-              },
-            ],
-          }),
+          body: JSON.stringify({ input }),
         });
 
-        const responseData = await nextStepResponse.json();
-
-        // Ensure nextStepData is always an array
-        const nextStepData = Array.isArray(responseData) ? responseData : [];
-
-        // Log error if we got an invalid response
-        if (!Array.isArray(responseData)) {
-          console.error("API returned non-array data:", responseData);
+        if (inputResponse.status === 409) {
+          // The run can't take more input, e.g. it stopped in the middle of a step
+          const data = await inputResponse.json().catch(() => ({}));
+          addErrorStep(
+            data.error || "This task can't continue. Start a new one.",
+            "Error handling user input"
+          );
+          return;
         }
-
-        // Handle reasoning-only responses by adding a message item if needed
-        if (
-          nextStepData[0]?.output?.length === 1 &&
-          nextStepData[0]?.output[0]?.type === "reasoning"
-        ) {
-          console.log("Detected reasoning-only response, adding message item");
-          // Add a message item to ensure the reasoning is followed by another item
-          nextStepData[0].output.push({
-            id: `msg_fallback_${nextStepData[0]?.responseId || "default"}`,
-            type: "message",
-            role: "assistant",
-            content: [
-              {
-                type: "output_text",
-                text: "I'll help you with that task.",
-                annotations: [],
-              },
-            ],
-          });
+        if (!inputResponse.ok) {
+          throw new Error(`API error: ${inputResponse.status}`);
         }
 
-        currentResponseRef.current = {
-          id: nextStepData[0].responseId,
-        };
-
-        const stepNumber = agentStateRef.current.steps.length + 1;
-
-        if (agentStateRef.current.sessionId) {
-          // Process the next step recursively
-          return processStep(
-            nextStepData,
-            agentStateRef.current.sessionId,
-            stepNumber
-          );
-        }
+        subscribeToRun(runId);
       } catch (error) {
         console.error("Error handling user input:", error);
 
-        // Check if this is a reasoning item error
-        if (
-          error instanceof Error &&
-          (error.message.includes("reasoning") ||
-            error.message.includes("without its required following item"))
-        ) {
-          console.log(
-            "Handling reasoning item error, retrying with modified request"
-          );
-          try {
-            // Try again with a more specific instruction
-            const retryResponse = await fetch("/api/cua/step/generate", {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                sessionId: agentStateRef.current.sessionId,
-                responseId: currentResponseRef.current?.id,
-                input: [
-                  {
-                    role: "user",
-                    content: input + " Please take a specific action.",
-                  },
-                ],
-              }),
-            });
-
-            if (!retryResponse.ok) {
-              throw new Error(`API error: ${retryResponse.status}`);
-            }
-
-            const retryData = await retryResponse.json();
-
-            // If we still have a reasoning-only response, add a message item
-            if (
-              retryData[0]?.output?.length === 1 &&
-              retryData[0]?.output[0]?.type === "reasoning"
-            ) {
-              console.log(
-                "Still got reasoning-only response, adding message item"
-              );
-              // Add a message item to ensure reasoning is followed by another item
-              retryData[0].output.push({
-                id: `msg_fallback_${retryData[0]?.responseId || "default"}`,
-                type: "message",
-                role: "assistant",
-                content: [
-                  {
-                    type: "output_text",
-                    text: "I'll help you with that task.",
-                    annotations: [],
-                  },
-                ],
-              });
-            }
-
-            currentResponseRef.current = {
-              id: retryData[0].responseId,
-            };
-
-            const stepNumber = agentStateRef.current.steps.length + 1;
-
-            if (agentStateRef.current.sessionId) {
-              // Process the retry step
-              return processStep(
-                retryData,
-                agentStateRef.current.sessionId,
-                stepNumber
-              );
-            }
-          } catch (retryError) {
-            console.error("Error during retry:", retryError);
-            // Fall through to the default error handling
-          }
-        }
-
-        // Default error handling
-        const errorStep: BrowserStep = {
-          text: "Sorry, there was an error processing your request. Please try again.",
-          reasoning: "Error handling user input",
-          tool: "MESSAGE",
-          instruction: "",
-          stepNumber: agentStateRef.current.steps.length + 1,
-        };
-
-        agentStateRef.current = {
-          ...agentStateRef.current,
-          steps: [...agentStateRef.current.steps, errorStep],
-        };
-
-        setUiState((prev) => ({
-          ...prev,
-          steps: agentStateRef.current.steps,
-        }));
-
-        setUserInput("");
+        addErrorStep(
+          "Sorry, there was an error processing your request. Please try again.",
+          "Error handling user input"
+        );
 
         setIsWaitingForInput(true);
-        return null;
       }
     },
-    [processStep]
+    [subscribeToRun, addErrorStep]
   );
 
-  // Add currentResponseRef to store the current response
-  const currentResponseRef = useRef<{ id: string } | null>(null);
-
-  // Update the initialization function
+  // Create the browser session, start a server-side run and follow its events
   useEffect(() => {
-    console.log("useEffect called");
     const initializeSession = async () => {
       if (initializationRef.current) return;
       initializationRef.current = true;
@@ -1206,8 +1185,8 @@ export default function LegacyChatFeed({
             steps: [],
           });
 
-          // Start the cua session
-          const startResponse = await fetch("/api/cua/start", {
+          // Start the run on the server
+          const runResponse = await fetch("/api/cua/runs", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
@@ -1215,28 +1194,17 @@ export default function LegacyChatFeed({
             body: JSON.stringify({
               sessionId: sessionData.sessionId,
               userInput: initialMessage,
+              outputSchema,
             }),
           });
+          const runData = await runResponse.json();
 
-          const responseData = await startResponse.json();
-
-          // Ensure startData is always an array
-          const startData = Array.isArray(responseData) ? responseData : [];
-
-          // Log error if we got an invalid response
-          if (!Array.isArray(responseData)) {
-            console.error(
-              "API returned non-array data from /api/cua/start:",
-              responseData
-            );
+          if (!runResponse.ok) {
+            throw new Error(runData.error || "Failed to start run");
           }
 
-          if (startData.length > 0) {
-            const stepNumber = 1;
-
-            // Process the first step and continue with subsequent steps
-            await processStep(startData, sessionData.sessionId, stepNumber);
-          }
+          runIdRef.current = runData.runId;
+          subscribeToRun(runData.runId);
         } catch (error) {
           console.error("Session initialization error:", error);
         } finally {
@@ -1246,7 +1214,7 @@ export default function LegacyChatFeed({
     };
 
     initializeSession();
-  }, [initialMessage, handleUserInput, processStep]);
+  }, [initialMessage, outputSchema, subscribeToRun]);
 
   // Spring configuration for smoother animations
   const springConfig = {
@@ -1391,6 +1359,11 @@ export default function LegacyChatFeed({
                 sessionTime={sessionTime}
                 onStop={() => setIsAgentFinished(true)}
                 onRestart={onClose}
+                isPaused={isPaused}
+                onPause={canControlRun ? handlePause : undefined}
+                onResume={canControlRun ? handleResume : undefined}
+                onTakeOver={canControlRun ? handleTakeOver : undefined}
+                isInteractive={isTakenOver}
               />
 
               {!isAgentFinished && (
@@ -1398,6 +1371,10 @@ export default function LegacyChatFeed({
                   <SessionControls
                     sessionTime={sessionTime}
                     onStop={() => setIsAgentFinished(true)}
+                    isPaused={isPaused}
+                    onPause={canControlRun ? handlePause : undefined}
+                    onResume={canControlRun ? handleResume : undefined}
+                    onTakeOver={canControlRun ? handleTakeOver : undefined}
                   />
                 </div>
               )}
@@ -1650,6 +1627,10 @@ export default function LegacyChatFeed({
                               }
                             })()}
                           </>
+                        ) : step.tool === "RESULT" ? (
+                          <pre className="p-2 text-sm whitespace-pre-wrap break-words bg-white border border-[#CAC8C7]">
+                            {step.text}
+                          </pre>
                         ) : (
                           step.text
                         )}
@@ -1720,6 +1701,72 @@ export default function LegacyChatFeed({
                   })()}
               </div>
 
+              {/* Safety check approval */}
+              {pendingSafetyCheck && !isAgentFinished && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                  className="mt-4 p-4 bg-[#2E191E] text-white font-ppsupply space-y-3"
+                >
+                  <div className="text-sm text-gray-200">
+                    Approval needed ({pendingSafetyCheck.code})
+                  </div>
+                  <div className="p-2 border-l-2">
+                    {pendingSafetyCheck.message}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() =>
+                        handleSafetyCheck(pendingSafetyCheck, true)
+                      }
+                      className="px-2 sm:px-4 py-2 bg-[#FF3B00] text-white font-ppsupply hover:bg-[#E63500] transition-colors text-sm sm:text-base"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() =>
+                        handleSafetyCheck(pendingSafetyCheck, false)
+                      }
+                      className="px-2 sm:px-4 py-2 border-2 border-[#FF3B00] text-white font-ppsupply hover:bg-[#FF3B00]/20 transition-colors text-sm sm:text-base"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </motion.div>
+              )}
+
+              {isTakenOver && !isAgentFinished && (
+                <motion.form
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                  onSubmit={async (e) => {
+                    e.preventDefault();
+                    await handleHandBack(handBackNote);
+                  }}
+                  className="mt-4 p-4 bg-[#2E191E] text-white font-ppsupply space-y-3"
+                >
+                  <div className="text-sm text-gray-200">
+                    You have control of the browser. Hand it back when you are
+                    done, with a note for the agent if it helps.
+                  </div>
+                  <input
+                    type="text"
+                    value={handBackNote}
+                    onChange={(e) => setHandBackNote(e.target.value)}
+                    placeholder="e.g. I solved the CAPTCHA"
+                    className="w-full px-2 py-2 bg-transparent border-2 border-[#FF3B00]/50 text-white focus:outline-none focus:border-[#FF3B00] text-sm sm:text-base"
+                  />
+                  <button
+                    type="submit"
+                    className="px-2 sm:px-4 py-2 bg-[#FF3B00] text-white font-ppsupply hover:bg-[#E63500] transition-colors text-sm sm:text-base"
+                  >
+                    Hand back
+                  </button>
+                </motion.form>
+              )}
+
               {/* Chat Input */}
               {isWaitingForInput && !isAgentFinished && (
                 <motion.form
@@ -6,6 +6,10 @@ import { motion } from "framer-motion";
 interface SessionControlsProps {
   sessionTime: number;
   onStop: () => void;
+  isPaused?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
+  onTakeOver?: () => void;
 }
 
 const formatTime = (seconds: number): string => {
@@ -17,6 +21,10 @@ const formatTime = (seconds: number): string => {
 export const SessionControls: React.FC<SessionControlsProps> = ({
   sessionTime,
   onStop,
+  isPaused = false,
+  onPause,
+  onResume,
+  onTakeOver,
 }) => {
   // Use client-side rendering for the time display to avoid hydration mismatch
   const [mounted, setMounted] = useState(false);
@@ -47,6 +55,44 @@ export const SessionControls: React.FC<SessionControlsProps> = ({
         </div>
       </div>
 
+      {onPause && onResume && (
+        <motion.button
+          className="flex items-center justify-center px-2 py-0.5 text-sm text-[#2E191E] border border-[#CAC8C7] bg-white hover:bg-[#F6F5F5] transition-colors"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={isPaused ? onResume : onPause}
+        >
+          <svg
+            className="w-4 h-4 mr-1"
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            {isPaused ? (
+              <polygon points="7 5 19 12 7 19" fill="currentColor" />
+            ) : (
+              <>
+                <rect x="6" y="5" width="4" height="14" fill="currentColor" />
+                <rect x="14" y="5" width="4" height="14" fill="currentColor" />
+              </>
+            )}
+          </svg>
+          {isPaused ? "Resume" : "Pause"}
+        </motion.button>
+      )}
+
+      {onTakeOver && (
+        <motion.button
+          className="flex items-center justify-center px-2 py-0.5 text-sm text-[#2E191E] border border-[#CAC8C7] bg-white hover:bg-[#F6F5F5] transition-colors"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={onTakeOver}
+        >
+          Take over
+        </motion.button>
+      )}
+
       <motion.button
         className="flex items-center justify-center px-2 py-0.5 text-sm text-white bg-[#FF3B00] hover:bg-[#E63500] transition-colors"
         whileHover={{ scale: 1.05 }}
@@ -5,6 +5,11 @@ import { AnimatePresence, motion } from "framer-motion";
 import AnimatedButton from "./components/AnimatedButton";
 import Image from "next/image";
 import ChatFeed from "./components/ChatFeed";
+import {
+  OutputSchema,
+  OutputSchemaError,
+  parseOutputSchema,
+} from "./api/cua/agent/schema";
 import { Code, Gamepad2, Layers, Table, TrendingUp } from "lucide-react";
 
 const Tooltip = ({
@@ -48,6 +53,11 @@ const Tooltip = ({
 export default function Home() {
   const [isChatVisible, setIsChatVisible] = useState(false);
   const [initialMessage, setInitialMessage] = useState("");
+  // An optional JSON schema; when set, the answer is returned as structured data
+  const [showSchema, setShowSchema] = useState(false);
+  const [schemaText, setSchemaText] = useState("");
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [outputSchema, setOutputSchema] = useState<OutputSchema | undefined>();
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -85,10 +95,25 @@ export default function Home() {
 
   const startChat = useCallback(
     (finalMessage: string) => {
+      let schema: OutputSchema | undefined;
+      if (showSchema && schemaText.trim()) {
+        try {
+          schema = parseOutputSchema(JSON.parse(schemaText));
+        } catch (error) {
+          setSchemaError(
+            error instanceof OutputSchemaError
+              ? error.message
+              : "The output schema is not valid JSON"
+          );
+          return;
+        }
+      }
+      setSchemaError(null);
+      setOutputSchema(schema);
       setInitialMessage(finalMessage);
       setIsChatVisible(true);
     },
-    [setInitialMessage, setIsChatVisible]
+    [showSchema, schemaText, setInitialMessage, setIsChatVisible]
   );
 
   return (
@@ -222,6 +247,36 @@ export default function Home() {
                       <AnimatedButton type="submit">Run</AnimatedButton>
                     </div>
                   </div>
+                  <div className="w-full flex flex-col gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setShowSchema(!showSchema)}
+                      className="self-start text-xs text-gray-500 hover:text-[#FF3B00] font-ppsupply transition-colors"
+                    >
+                      {showSchema ? "− " : "+ "}Return structured data
+                    </button>
+                    {showSchema && (
+                      <>
+                        <textarea
+                          name="outputSchema"
+                          value={schemaText}
+                          onChange={(e) => {
+                            setSchemaText(e.target.value);
+                            setSchemaError(null);
+                          }}
+                          rows={6}
+                          spellCheck={false}
+                          placeholder={`{"type": "object", "properties": {"price": {"type": "number"}}, "required": ["price"], "additionalProperties": false}`}
+                          className="w-full px-4 py-3 border border-[#CAC8C7] text-gray-900 placeholder:text-gray-400 focus:outline-none focus:ring-0 focus:border-[#FF3B00] font-mono text-xs md:text-sm"
+                        />
+                        {schemaError && (
+                          <p className="text-xs text-red-600 font-ppsupply">
+                            {schemaError}
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </div>
                 </form>
                 <div className="grid grid-cols-2 gap-3 md:gap-4 lg:gap-5 w-full">
                   <motion.button
@@ -347,6 +402,7 @@ export default function Home() {
       ) : (
         <ChatFeed
           initialMessage={initialMessage}
+          outputSchema={outputSchema}
           onClose={() => setIsChatVisible(false)}
         />
       )}